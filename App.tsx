@@ -1,53 +1,188 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { ControlPanel } from './components/ControlPanel';
 import { Gallery } from './components/Gallery';
 import { PromptLibrary } from './components/PromptLibrary';
 import { MetadataPanel } from './components/MetadataPanel';
 import { QualityInspector } from './components/QualityInspector';
 import { ContributorGuide } from './components/ContributorGuide';
-import { GenerationParams, GeneratedImage, AspectRatio, ImageQuality, StylePreset } from './types';
-import { checkApiKey, promptForApiKey, generateImage, generateMetadata, assessImageQuality } from './services/geminiService';
-import { Download, Image as ImageIcon, AlertCircle, BookOpen, Tag, Activity } from 'lucide-react';
+import { QueuePanel } from './components/QueuePanel';
+import { MaskEditor } from './components/MaskEditor';
+import { CandidateGrid } from './components/CandidateGrid';
+import { GenerationDetails } from './components/GenerationDetails';
+import { ErrorBanner } from './components/ErrorBanner';
+import { UsagePanel } from './components/UsagePanel';
+import { TemplateBuilder } from './components/TemplateBuilder';
+import { PromptEnhancer } from './components/PromptEnhancer';
+import { StylePresetManager } from './components/StylePresetManager';
+import { BulkExportPanel } from './components/BulkExportPanel';
+import { BrandRulesManager } from './components/BrandRulesManager';
+import { GenerationParams, GeneratedImage, AspectRatio, ImageQuality, StylePreset, QueueJob, ProviderId, ReferenceRole, AutoFixSettings, GenerationResult, UsageEntry, PriceTable, EnhanceStrategy, CustomStylePreset, StockPlatform, ImageFileInfo, MetadataLanguage, MetadataTranslations, BrandSettings } from './types';
+import { PROVIDERS, getProvider, loadProviderId, saveProviderId } from './services/providers';
+import { createGenerationQueue, GenerationQueue } from './services/queueService';
+import { runQualityGatedGeneration } from './services/autoFixService';
+import { upscaleImage } from './services/upscaleService';
+import { measureImage, describeImageFile } from './services/imageInfoService';
+import { exportJpeg, exportFileName, downloadBlob, loadAuthorName, saveAuthorName } from './services/exportService';
+import { loadStylePresets, saveStylePresets, getStyleLabel } from './services/stylePresetService';
+import { loadTargetLanguages, saveTargetLanguages } from './services/translationService';
+import { loadBrandSettings, saveBrandSettings } from './services/brandService';
+import { withUsageTracking, loadUsageLedger, saveUsageLedger, loadPriceTable, savePriceTable, repriceLedger } from './services/usageService';
+import { AIError, AuthError, CancelledError, classifyError } from './services/errors';
+import { MICROSTOCK_NEGATIVE_PROMPT, MAX_REFERENCE_IMAGES, STOCK_PLATFORMS, DEFAULT_JPEG_QUALITY } from './constants';
+import { Download, Image as ImageIcon, BookOpen, Tag, Activity, PenTool, CornerUpLeft, Receipt, Braces, FileDown, ShieldAlert } from 'lucide-react';
 
 const App: React.FC = () => {
   const [hasApiKey, setHasApiKey] = useState<boolean>(false);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [isGeneratingMetadata, setIsGeneratingMetadata] = useState<boolean>(false);
+  const [isTranslating, setIsTranslating] = useState<boolean>(false);
+  const [targetLanguages, setTargetLanguages] = useState<MetadataLanguage[]>(loadTargetLanguages);
   const [isAnalyzingQuality, setIsAnalyzingQuality] = useState<boolean>(false);
+  const [isEditMode, setIsEditMode] = useState<boolean>(false);
+  const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [isRerunning, setIsRerunning] = useState<boolean>(false);
+  const [isUpscaling, setIsUpscaling] = useState<boolean>(false);
+  const [upscaleNote, setUpscaleNote] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [jpegQuality, setJpegQuality] = useState<number>(DEFAULT_JPEG_QUALITY);
+  const [authorName, setAuthorName] = useState<string>(loadAuthorName);
+  const [autoFix, setAutoFix] = useState<AutoFixSettings>({ enabled: false, maxAttempts: 3 });
+  const [autoFixStatus, setAutoFixStatus] = useState<string | null>(null);
+  const [candidateCount, setCandidateCount] = useState<number>(1);
+  const [blockOnLintErrors, setBlockOnLintErrors] = useState<boolean>(true);
+  const [candidates, setCandidates] = useState<GeneratedImage[]>([]);
+  const [isScoringCandidates, setIsScoringCandidates] = useState<boolean>(false);
   const [showGuide, setShowGuide] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [showUsage, setShowUsage] = useState<boolean>(false);
+  const [showTemplates, setShowTemplates] = useState<boolean>(false);
+  const [showStyles, setShowStyles] = useState<boolean>(false);
+  const [showBrands, setShowBrands] = useState<boolean>(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showBulkExport, setShowBulkExport] = useState<boolean>(false);
+  const [stylePresets, setStylePresets] = useState<CustomStylePreset[]>(loadStylePresets);
+  const [brandSettings, setBrandSettings] = useState<BrandSettings>(loadBrandSettings);
+  const [enhancement, setEnhancement] = useState<{ original: string; enhanced: string; strategy: EnhanceStrategy } | null>(null);
+  const [isEnhancing, setIsEnhancing] = useState<boolean>(false);
+  const [usageLedger, setUsageLedger] = useState<UsageEntry[]>(loadUsageLedger);
+  const [priceTable, setPriceTable] = useState<PriceTable>(loadPriceTable);
+  const [error, setError] = useState<{ error: AIError; context: string; retry?: () => void } | null>(null);
   const [currentImage, setCurrentImage] = useState<GeneratedImage | null>(null);
   const [history, setHistory] = useState<GeneratedImage[]>([]);
   const [activeTab, setActiveTab] = useState<'metadata' | 'quality'>('metadata');
+  const [jobs, setJobs] = useState<QueueJob[]>([]);
+  const [concurrency, setConcurrency] = useState<number>(2);
+  const [providerId, setProviderId] = useState<ProviderId>(loadProviderId);
+
+  // Every call goes through the usage ledger; the updater is stable, so wrapping once per provider is enough
+  const recordUsage = (entry: UsageEntry) => setUsageLedger(prev => [...prev, entry]);
+  const provider = useMemo(() => withUsageTracking(getProvider(providerId), recordUsage), [providerId]);
+
+  // Long-lived callbacks (queue, auto-metadata) read the provider through this ref
+  const providerRef = useRef(provider);
+  providerRef.current = provider;
+
+  // One controller per cancellable action, plus every pending call per image so deleting it aborts them
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const editAbortRef = useRef<AbortController | null>(null);
+  const metadataAbortRef = useRef<AbortController | null>(null);
+  const translateAbortRef = useRef<AbortController | null>(null);
+  const qualityAbortRef = useRef<AbortController | null>(null);
+  const enhanceAbortRef = useRef<AbortController | null>(null);
+  const upscaleAbortRef = useRef<AbortController | null>(null);
+  const rerunAbortRef = useRef<AbortController | null>(null);
+  const imageWorkRef = useRef(new Map<string, Set<AbortController>>());
   
   const [params, setParams] = useState<GenerationParams>({
     prompt: '',
     aspectRatio: AspectRatio.SQUARE,
     quality: ImageQuality.TWO_K,
     style: StylePreset.NONE,
-    optimizeForMicrostock: true
+    optimizeForMicrostock: true,
+    negativePrompt: MICROSTOCK_NEGATIVE_PROMPT
   });
 
   const verifyKey = async () => {
     try {
-      const valid = await checkApiKey();
+      const valid = await provider.checkApiKey();
       setHasApiKey(valid);
     } catch (e) {
       console.error("Failed to check API key status", e);
     }
   };
 
+  // Created once; its callbacks only go through state setters, so the first render's closures stay valid
+  const queueRef = useRef<GenerationQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createGenerationQueue({
+      concurrency,
+      // Queue results reuse the job id as image id so the ledger can attribute the call up front
+      runJob: (job, signal) => providerRef.current.generateImage(job.params, {
+        signal,
+        usage: { imageId: job.id, batchId: job.batchId, batchLabel: 'Queue' }
+      }),
+      onJobComplete: (job, result) => addGeneratedImage(job.params, result, { id: job.id }).id,
+      onChange: setJobs
+    });
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => {
+    saveUsageLedger(usageLedger);
+  }, [usageLedger]);
+
   useEffect(() => {
     verifyKey();
     window.addEventListener('focus', verifyKey);
     return () => window.removeEventListener('focus', verifyKey);
-  }, []);
+  }, [providerId]);
+
+  /**
+   * Shows a classified, actionable error. Auth failures also reset the key state;
+   * cancellations were asked for by the user and are not shown.
+   */
+  const reportError = (err: unknown, context: string, retry?: () => void) => {
+    const classified = classifyError(err);
+    if (classified instanceof CancelledError) return;
+    setError({ error: classified, context, retry });
+    if (classified instanceof AuthError) {
+      setHasApiKey(false);
+    }
+  };
+
+  /**
+   * Registers a pending call for an image; returns the controller whose signal the call should use.
+   */
+  const startImageWork = (imageId: string): AbortController => {
+    const controller = new AbortController();
+    const pending = imageWorkRef.current.get(imageId) ?? new Set<AbortController>();
+    pending.add(controller);
+    imageWorkRef.current.set(imageId, pending);
+    return controller;
+  };
+
+  const finishImageWork = (imageId: string, controller: AbortController) => {
+    const pending = imageWorkRef.current.get(imageId);
+    if (!pending) return;
+    pending.delete(controller);
+    if (pending.size === 0) imageWorkRef.current.delete(imageId);
+  };
+
+  const cancelImageWork = (imageId: string) => {
+    imageWorkRef.current.get(imageId)?.forEach(controller => controller.abort());
+    imageWorkRef.current.delete(imageId);
+  };
+
+  const handleProviderChange = (id: ProviderId) => {
+    setProviderId(id);
+    saveProviderId(id);
+    setError(null);
+  };
 
   const handleGenerate = async () => {
     if (!hasApiKey) {
-      await promptForApiKey();
-      const stillValid = await checkApiKey();
+      await provider.promptForApiKey();
+      const stillValid = await provider.checkApiKey();
        if (!stillValid) {
            setHasApiKey(true);
        }
@@ -55,72 +190,473 @@ const App: React.FC = () => {
 
     setError(null);
     setIsGenerating(true);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
 
     try {
-      // 1. Generate Image
-      const imageUrl = await generateImage(params);
-      
-      const newId = crypto.randomUUID();
-      const newImage: GeneratedImage = {
-        id: newId,
-        url: imageUrl,
-        params: { ...params },
-        timestamp: Date.now(),
-        metadata: undefined // initially undefined
-      };
-      
+      if (candidateCount > 1) {
+        await runCandidates(params, candidateCount, controller.signal);
+      } else if (autoFix.enabled) {
+        await runAutoFix(params, controller.signal);
+      } else {
+        const imageId = crypto.randomUUID();
+        const result = await provider.generateImage(params, { signal: controller.signal, usage: { imageId } });
+        addGeneratedImage(params, result, { id: imageId, select: true });
+      }
+    } catch (err) {
+      reportError(err, "Generation failed", handleGenerate);
+    } finally {
+      generationAbortRef.current = null;
+      setIsGenerating(false);
+      setAutoFixStatus(null);
+    }
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  /**
+   * Stores a freshly generated image in history and kicks off auto-metadata.
+   * Unselected images (queue results, auto-fix attempts) only become current when nothing else is.
+   */
+  const addGeneratedImage = (
+    imageParams: GenerationParams,
+    result: GenerationResult,
+    options: { id?: string; select?: boolean; autoMetadata?: boolean; extra?: Partial<GeneratedImage> } = {}
+  ): GeneratedImage => {
+    const { id = crypto.randomUUID(), select = false, autoMetadata = true, extra = {} } = options;
+    const newImage: GeneratedImage = {
+      id,
+      url: result.url,
+      params: { ...imageParams },
+      timestamp: Date.now(),
+      metadata: undefined, // initially undefined
+      provenance: result.provenance,
+      ...extra
+    };
+
+    setHistory(prev => [newImage, ...prev]);
+    if (select) {
       setCurrentImage(newImage);
-      setHistory(prev => [newImage, ...prev]);
       setActiveTab('metadata'); // Reset to metadata tab on new image
-      
-      // 2. Auto-generate metadata if optimizing for microstock
-      if (params.optimizeForMicrostock) {
-         try {
-           // Pass the image URL (base64) to the metadata service for vision analysis
-           generateMetadata(params, imageUrl).then(meta => {
-              updateImageMetadata(newId, meta);
-           }).catch(err => {
-             console.warn("Metadata auto-generation skipped/failed", err);
-           });
-         } catch (e) {
-           console.warn("Metadata setup failed", e);
-         }
+    } else {
+      setCurrentImage(prev => prev ?? newImage);
+    }
+
+    if (autoMetadata) {
+      autoGenerateMetadata(newImage);
+    }
+    measureImageFile(newImage);
+
+    return newImage;
+  };
+
+  // Records the decoded dimensions, size and format; failures leave the image unmeasured
+  const measureImageFile = (image: GeneratedImage) => {
+    measureImage(image.url)
+      .then(file => updateImageFile(image.id, file))
+      .catch(err => console.warn("Could not measure image", err));
+  };
+
+  // Auto-generate metadata if optimizing for microstock
+  const autoGenerateMetadata = (image: GeneratedImage) => {
+    if (!image.params.optimizeForMicrostock) return;
+
+    // Pass the image URL (base64) to the metadata service for vision analysis
+    const controller = startImageWork(image.id);
+    providerRef.current.generateMetadata(image.params, image.url, {
+      signal: controller.signal,
+      usage: { imageId: image.id }
+    }).then(meta => {
+      updateImageMetadata(image.id, meta);
+    }).catch(err => {
+      console.warn("Metadata auto-generation skipped/failed", err);
+    }).finally(() => {
+      finishImageWork(image.id, controller);
+    });
+  };
+
+  /**
+   * Auto-fix mode: every attempt lands in history with its assessment; the best one is
+   * promoted to the current image and only that one gets metadata.
+   */
+  const runAutoFix = async (generationParams: GenerationParams, signal: AbortSignal) => {
+    const runId = crypto.randomUUID();
+    const attempts = new Map<number, GeneratedImage>();
+
+    const best = await runQualityGatedGeneration(provider, generationParams, autoFix.maxAttempts, (attempt) => {
+      setAutoFixStatus(`Attempt ${attempt.attempt}/${autoFix.maxAttempts} scored ${attempt.assessment.score}`);
+      const image = addGeneratedImage(attempt.params, attempt.result, {
+        id: attempt.id,
+        autoMetadata: false,
+        extra: {
+          qualityAssessment: attempt.assessment,
+          autoFix: { runId, attempt: attempt.attempt, maxAttempts: autoFix.maxAttempts }
+        }
+      });
+      attempts.set(attempt.attempt, image);
+    }, { signal, usage: { batchId: runId, batchLabel: 'Auto-fix' } });
+
+    const bestImage = attempts.get(best.attempt);
+    if (bestImage) {
+      setCurrentImage(bestImage);
+      setActiveTab('quality');
+      autoGenerateMetadata(bestImage);
+    }
+  };
+
+  /**
+   * Generates N variants of one prompt, then scores each (quality + metadata) for the contact grid.
+   * Candidates stay out of history until the user keeps them.
+   */
+  const runCandidates = async (generationParams: GenerationParams, count: number, signal: AbortSignal) => {
+    const groupId = crypto.randomUUID();
+    const ids = Array.from({ length: count }, () => crypto.randomUUID());
+    const usage = { batchId: groupId, batchLabel: 'Candidates' };
+    setCandidates([]);
+
+    const results = await Promise.allSettled(
+      // A fixed seed is offset per variant so candidates still differ but stay reproducible
+      ids.map((id, i) => provider.generateImage({
+        ...generationParams,
+        seed: generationParams.seed === undefined ? undefined : generationParams.seed + i
+      }, { signal, usage: { ...usage, imageId: id } }))
+    );
+    const images: GeneratedImage[] = results
+      .map((r, i): GeneratedImage | null => r.status === 'fulfilled' ? {
+        id: ids[i],
+        url: r.value.url,
+        params: { ...generationParams, seed: r.value.provenance.seed ?? generationParams.seed },
+        timestamp: Date.now(),
+        candidateGroupId: groupId,
+        provenance: r.value.provenance
+      } : null)
+      .filter((image): image is GeneratedImage => !!image);
+
+    if (images.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    setCandidates(images);
+    images.forEach(image => measureImage(image.url)
+      .then(file => setCandidates(prev => prev.map(c => c.id === image.id ? { ...c, file } : c)))
+      .catch(err => console.warn("Could not measure image", err)));
+
+    setIsScoringCandidates(true);
+    try {
+      await Promise.all(images.map(async image => {
+        const [assessment, metadata] = await Promise.allSettled([
+          provider.assessImageQuality(image.url, { signal, usage: { ...usage, imageId: image.id } }),
+          provider.generateMetadata(image.params, image.url, { signal, usage: { ...usage, imageId: image.id } })
+        ]);
+        setCandidates(prev => prev.map(c => c.id === image.id ? {
+          ...c,
+          qualityAssessment: assessment.status === 'fulfilled' ? assessment.value : c.qualityAssessment,
+          metadata: metadata.status === 'fulfilled' ? metadata.value : c.metadata
+        } : c));
+      }));
+    } finally {
+      setIsScoringCandidates(false);
+    }
+  };
+
+  const handleKeepCandidates = (keepIds: string[]) => {
+    // keepIds arrive in rank order; the winner becomes the current image
+    const kept = keepIds
+      .map(id => candidates.find(c => c.id === id))
+      .filter((c): c is GeneratedImage => !!c);
+    if (kept.length > 0) {
+      setHistory(prev => [...kept, ...prev]);
+      setCurrentImage(kept[0]);
+      setActiveTab('metadata');
+      kept.filter(c => !c.file).forEach(measureImageFile);
+    }
+    setCandidates([]);
+  };
+
+  const handleEnqueue = async (count: number) => {
+    if (!hasApiKey) {
+      await provider.promptForApiKey();
+    }
+    setError(null);
+    // Same offset as candidates, so a fixed seed does not pay for N identical images
+    queue.enqueue(Array.from({ length: count }, (_, i) => ({
+      ...params,
+      seed: params.seed === undefined ? undefined : params.seed + i
+    })));
+  };
+
+  const handleEnqueueSeries = async (paramsList: GenerationParams[]) => {
+    if (!hasApiKey) {
+      await provider.promptForApiKey();
+    }
+    setError(null);
+    queue.enqueue(paramsList);
+  };
+
+  /**
+   * Rewrites the prompt with the given strategy. The result is only a proposal until accepted;
+   * rewriting again always starts from the original prompt.
+   */
+  const handleEnhancePrompt = async (strategy: EnhanceStrategy) => {
+    const original = enhancement?.original ?? params.prompt;
+    if (!original.trim()) return;
+    if (!hasApiKey) {
+      await provider.promptForApiKey();
+    }
+
+    enhanceAbortRef.current?.abort();
+    const controller = new AbortController();
+    enhanceAbortRef.current = controller;
+    setEnhancement(prev => ({ original, enhanced: prev?.enhanced ?? '', strategy }));
+    setIsEnhancing(true);
+    setError(null);
+    try {
+      const enhanced = await provider.enhancePrompt(original, strategy, { signal: controller.signal });
+      setEnhancement({ original, enhanced, strategy });
+    } catch (err) {
+      if (classifyError(err) instanceof CancelledError) return;
+      setEnhancement(null);
+      reportError(err, "Prompt enhancement failed", () => handleEnhancePrompt(strategy));
+    } finally {
+      if (enhanceAbortRef.current === controller) {
+        enhanceAbortRef.current = null;
+        setIsEnhancing(false);
+      }
+    }
+  };
+
+  const handleAcceptEnhancement = (prompt: string) => {
+    setParams(prev => ({ ...prev, prompt }));
+    setEnhancement(null);
+  };
+
+  const handleRejectEnhancement = () => {
+    enhanceAbortRef.current?.abort();
+    enhanceAbortRef.current = null;
+    setIsEnhancing(false);
+    setEnhancement(null);
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    queue.setConcurrency(value);
+  };
+
+  const handleSelectImageById = (id: string) => {
+    const image = history.find(img => img.id === id);
+    if (image) handleSelectImage(image);
+  };
+
+  const handleUseAsReference = (image: GeneratedImage) => {
+    setParams(prev => {
+      const references = prev.referenceImages || [];
+      if (references.length >= MAX_REFERENCE_IMAGES || references.some(ref => ref.sourceImageId === image.id)) {
+        return prev;
       }
+      return {
+        ...prev,
+        referenceImages: [...references, {
+          id: crypto.randomUUID(),
+          url: image.url,
+          mimeType: image.url.match(/^data:([^;]+);/)?.[1] || 'image/png',
+          role: ReferenceRole.COMPOSITION,
+          sourceImageId: image.id
+        }]
+      };
+    });
+  };
+
+  const handleApplyEdit = async (maskUrl: string, instruction: string) => {
+    if (!currentImage) return;
+
+    setError(null);
+    setIsEditing(true);
+    const controller = startImageWork(currentImage.id);
+    editAbortRef.current = controller;
+    try {
+      const imageId = crypto.randomUUID();
+      const edited = await provider.editImage({
+        imageUrl: currentImage.url,
+        maskUrl,
+        instruction,
+        params: currentImage.params
+      }, { signal: controller.signal, usage: { imageId } });
+      addGeneratedImage(currentImage.params, edited, {
+        id: imageId,
+        select: true,
+        extra: {
+          parentId: currentImage.id,
+          edit: { instruction, maskUrl }
+        }
+      });
+      setIsEditMode(false);
+    } catch (err) {
+      reportError(err, "Edit failed");
+    } finally {
+      finishImageWork(currentImage.id, controller);
+      editAbortRef.current = null;
+      setIsEditing(false);
+    }
+  };
 
-    } catch (err: any) {
-      setError(err.message || "Failed to generate image. Please try again.");
-      if (err.message?.includes("API key") || err.message?.includes("403")) {
-        setHasApiKey(false);
+  /**
+   * Upscales on this device until the platform's minimum is met and stores the result as a
+   * derived image that shares the parent's params and metadata.
+   */
+  const handleUpscale = async (image: GeneratedImage, platform: StockPlatform, sharpen: number) => {
+    const targetMP = STOCK_PLATFORMS[platform].minMP;
+    setError(null);
+    setUpscaleNote(null);
+    setIsUpscaling(true);
+    const controller = startImageWork(image.id);
+    upscaleAbortRef.current = controller;
+    try {
+      const result = await upscaleImage(image.url, targetMP, sharpen, controller.signal);
+      if (result.width === result.sourceWidth && result.height === result.sourceHeight) {
+        setUpscaleNote(`${result.width}×${result.height} already meets the ${targetMP} MP minimum for ${platform}; no upscale was needed.`);
+        return;
       }
+
+      const upscaled: GeneratedImage = {
+        id: crypto.randomUUID(),
+        url: result.url,
+        params: image.params,
+        timestamp: Date.now(),
+        metadata: image.metadata,
+        parentId: image.id,
+        upscale: {
+          platform,
+          targetMP,
+          method: 'lanczos3',
+          sharpen,
+          sourceWidth: result.sourceWidth,
+          sourceHeight: result.sourceHeight,
+          width: result.width,
+          height: result.height
+        }
+      };
+      setHistory(prev => [upscaled, ...prev]);
+      setCurrentImage(upscaled);
+      measureImageFile(upscaled);
+    } catch (err) {
+      reportError(err, "Upscale failed", () => handleUpscale(image, platform, sharpen));
     } finally {
-      setIsGenerating(false);
+      finishImageWork(image.id, controller);
+      upscaleAbortRef.current = null;
+      setIsUpscaling(false);
+    }
+  };
+
+  const handleCancelEdit = () => {
+    editAbortRef.current?.abort();
+    setIsEditMode(false);
+  };
+
+  /**
+   * Reproduces an image with the provider, params and seed recorded in its provenance.
+   * Edits are replayed against their parent with the same mask and instruction.
+   */
+  const handleRerunExactly = async (image: GeneratedImage) => {
+    const rerunProvider = image.provenance ? withUsageTracking(getProvider(image.provenance.providerId), recordUsage) : provider;
+    const rerunParams: GenerationParams = { ...image.params, seed: image.provenance?.seed ?? image.params.seed };
+    const imageId = crypto.randomUUID();
+    // Tied to the image the result will hang off, so deleting that image aborts the re-run
+    const workId = image.edit ? image.parentId ?? image.id : image.id;
+
+    setError(null);
+    setIsRerunning(true);
+    const controller = startImageWork(workId);
+    rerunAbortRef.current = controller;
+    try {
+      if (image.edit) {
+        const parent = history.find(img => img.id === image.parentId);
+        if (!parent) throw new Error("The parent image of this edit is no longer in history.");
+        const result = await rerunProvider.editImage({ ...image.edit, imageUrl: parent.url, params: rerunParams }, { signal: controller.signal, usage: { imageId } });
+        addGeneratedImage(rerunParams, result, { id: imageId, select: true, extra: { parentId: parent.id, edit: image.edit } });
+      } else {
+        const result = await rerunProvider.generateImage(rerunParams, { signal: controller.signal, usage: { imageId } });
+        addGeneratedImage(rerunParams, result, { id: imageId, select: true, extra: { parentId: image.id } });
+      }
+    } catch (err) {
+      reportError(err, "Re-run failed", () => handleRerunExactly(image));
+    } finally {
+      finishImageWork(workId, controller);
+      rerunAbortRef.current = null;
+      setIsRerunning(false);
     }
   };
 
+  const handleSelectImage = (image: GeneratedImage) => {
+    setIsEditMode(false);
+    setCurrentImage(image);
+  };
+
   const handleGenerateMetadata = async () => {
     if (!currentImage) return;
     
     setIsGeneratingMetadata(true);
+    const controller = startImageWork(currentImage.id);
+    metadataAbortRef.current = controller;
     try {
-      const metadata = await generateMetadata(currentImage.params, currentImage.url);
+      const metadata = await provider.generateMetadata(currentImage.params, currentImage.url, {
+        signal: controller.signal,
+        usage: { imageId: currentImage.id }
+      });
       updateImageMetadata(currentImage.id, metadata);
-    } catch (err: any) {
-      setError("Failed to generate metadata: " + err.message);
+    } catch (err) {
+      reportError(err, "Metadata generation failed", handleGenerateMetadata);
     } finally {
+      finishImageWork(currentImage.id, controller);
+      metadataAbortRef.current = null;
       setIsGeneratingMetadata(false);
     }
   };
 
+  const handleTargetLanguagesChange = (languages: MetadataLanguage[]) => {
+    setTargetLanguages(languages);
+    saveTargetLanguages(languages);
+  };
+
+  const handleTranslateMetadata = async () => {
+    const metadata = currentImage?.metadata;
+    if (!currentImage || !metadata || targetLanguages.length === 0) return;
+
+    setIsTranslating(true);
+    const controller = startImageWork(currentImage.id);
+    translateAbortRef.current = controller;
+    try {
+      const translations = await provider.translateMetadata(metadata, targetLanguages, {
+        signal: controller.signal,
+        usage: { imageId: currentImage.id }
+      });
+      updateImageTranslations(currentImage.id, translations);
+    } catch (err) {
+      reportError(err, "Metadata translation failed", handleTranslateMetadata);
+    } finally {
+      finishImageWork(currentImage.id, controller);
+      translateAbortRef.current = null;
+      setIsTranslating(false);
+    }
+  };
+
   const handleAnalyzeQuality = async () => {
     if (!currentImage) return;
 
     setIsAnalyzingQuality(true);
+    const controller = startImageWork(currentImage.id);
+    qualityAbortRef.current = controller;
     try {
-      const assessment = await assessImageQuality(currentImage.url);
+      const assessment = await provider.assessImageQuality(currentImage.url, {
+        signal: controller.signal,
+        usage: { imageId: currentImage.id }
+      });
       updateImageAssessment(currentImage.id, assessment);
-    } catch (err: any) {
-      setError("Failed to analyze quality: " + err.message);
+    } catch (err) {
+      reportError(err, "Quality analysis failed", handleAnalyzeQuality);
     } finally {
+      finishImageWork(currentImage.id, controller);
+      qualityAbortRef.current = null;
       setIsAnalyzingQuality(false);
     }
   };
@@ -137,6 +673,22 @@ const App: React.FC = () => {
     });
   };
 
+  // Merges into the latest metadata so edits made while a translation was running are kept
+  const updateImageTranslations = (id: string, translations: MetadataTranslations) => {
+    const merge = (img: GeneratedImage): GeneratedImage => img.id === id && img.metadata
+      ? { ...img, metadata: { ...img.metadata, translations: { ...img.metadata.translations, ...translations } } }
+      : img;
+    setHistory(prev => prev.map(merge));
+    setCurrentImage(prev => prev ? merge(prev) : prev);
+  };
+
+  const updateImageFile = (id: string, file: ImageFileInfo) => {
+    setHistory(prev => prev.map(img =>
+      img.id === id ? { ...img, file } : img
+    ));
+    setCurrentImage(prev => prev && prev.id === id ? { ...prev, file } : prev);
+  };
+
   const updateImageAssessment = (id: string, qualityAssessment: any) => {
     setHistory(prev => prev.map(img => 
       img.id === id ? { ...img, qualityAssessment } : img
@@ -159,8 +711,54 @@ const App: React.FC = () => {
     document.body.removeChild(link);
   };
 
+  /**
+   * Persists the custom presets and moves the selected one to its latest version
+   * (or back to no style when it was deleted).
+   */
+  const handleStylePresetsChange = (presets: CustomStylePreset[]) => {
+    setStylePresets(presets);
+    saveStylePresets(presets);
+    setParams(prev => prev.customStyle
+      ? { ...prev, customStyle: presets.find(p => p.id === prev.customStyle!.id) }
+      : prev);
+  };
+
+  const handleBrandSettingsChange = (settings: BrandSettings) => {
+    setBrandSettings(settings);
+    saveBrandSettings(settings);
+  };
+
+  // JPEG with the metadata embedded, ready to upload without Bridge or ExifTool
+  const handleDownloadJpeg = async (language?: MetadataLanguage) => {
+    if (!currentImage) return;
+    const image = currentImage;
+    setIsExporting(true);
+    try {
+      const blob = await exportJpeg(image, jpegQuality, undefined, language, authorName);
+      downloadBlob(blob, exportFileName(image, 'jpg'));
+    } catch (err) {
+      reportError(err, "JPEG export failed", () => handleDownloadJpeg(language));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleAuthorNameChange = (name: string) => {
+    setAuthorName(name);
+    saveAuthorName(name);
+  };
+
+  // Past calls are re-priced too, so the header total and the usage view match the table
+  const handlePricesChange = (prices: PriceTable) => {
+    setPriceTable(prices);
+    savePriceTable(prices);
+    setUsageLedger(prev => repriceLedger(prev, prices));
+  };
+
   const handleDelete = (id: string) => {
+    cancelImageWork(id);
     setHistory(prev => prev.filter(img => img.id !== id));
+    setSelectedIds(prev => prev.filter(s => s !== id));
     if (currentImage?.id === id) {
       setCurrentImage(null);
     }
@@ -173,9 +771,21 @@ const App: React.FC = () => {
         params={params}
         setParams={setParams}
         onGenerate={handleGenerate}
+        onCancel={handleCancelGeneration}
+        onEnqueue={handleEnqueue}
+        onEnhance={handleEnhancePrompt}
+        stylePresets={stylePresets}
+        onManageStyles={() => setShowStyles(true)}
         isGenerating={isGenerating}
+        autoFix={autoFix}
+        setAutoFix={setAutoFix}
+        statusMessage={autoFixStatus}
+        candidateCount={candidateCount}
+        setCandidateCount={setCandidateCount}
+        blockOnLintErrors={blockOnLintErrors}
+        setBlockOnLintErrors={setBlockOnLintErrors}
         hasApiKey={hasApiKey}
-        onSelectKey={promptForApiKey}
+        onSelectKey={provider.promptForApiKey}
       />
 
       {/* Main Content */}
@@ -184,8 +794,18 @@ const App: React.FC = () => {
         {/* Top Bar */}
         <header className="h-16 border-b border-zinc-800 bg-zinc-900/50 flex items-center justify-between px-6 shrink-0">
           <div className="flex items-center gap-4">
+            <select
+              value={providerId}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+              className="bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-xs text-zinc-200 focus:ring-2 focus:ring-blue-500"
+              title={provider.description}
+            >
+              {Object.values(PROVIDERS).map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
             <span className="text-sm font-medium text-zinc-400">
-               Model: <span className="text-blue-400">gemini-3-pro-image-preview</span>
+               Model: <span className="text-blue-400">{provider.imageModel}</span>
             </span>
             {params.optimizeForMicrostock && (
               <span className="px-2 py-1 rounded-full bg-green-900/30 text-green-400 text-[10px] border border-green-800">
@@ -202,6 +822,29 @@ const App: React.FC = () => {
                <BookOpen size={14} />
                Submission Guide
              </button>
+             <button
+               onClick={() => setShowTemplates(true)}
+               className="flex items-center gap-2 text-xs text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded-md border border-zinc-700 transition-colors"
+             >
+               <Braces size={14} />
+               Templates
+             </button>
+             <button
+               onClick={() => setShowBrands(true)}
+               className="flex items-center gap-2 text-xs text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded-md border border-zinc-700 transition-colors"
+               title="Banned brand terms and allowed phrases used by metadata validation"
+             >
+               <ShieldAlert size={14} />
+               Brand Rules
+             </button>
+             <button
+               onClick={() => setShowUsage(true)}
+               className="flex items-center gap-2 text-xs text-zinc-400 hover:text-white bg-zinc-800 hover:bg-zinc-700 px-3 py-1.5 rounded-md border border-zinc-700 transition-colors"
+               title="Usage and estimated cost of every model call"
+             >
+               <Receipt size={14} />
+               ${usageLedger.reduce((sum, entry) => sum + entry.estimatedCost, 0).toFixed(2)}
+             </button>
              <div className="h-4 w-px bg-zinc-800 mx-1"></div>
              <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="text-xs text-zinc-500 hover:text-zinc-300 underline">
                Billing Info
@@ -214,10 +857,22 @@ const App: React.FC = () => {
           <div className="max-w-5xl mx-auto flex flex-col min-h-full">
             
             {error && (
-              <div className="mb-6 p-4 bg-red-900/20 border border-red-800 rounded-lg flex items-start gap-3 shrink-0">
-                <AlertCircle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
-                <div className="text-sm text-red-200">{error}</div>
-              </div>
+              <ErrorBanner
+                error={error.error}
+                context={error.context}
+                onConnectKey={provider.promptForApiKey}
+                onRetry={error.retry && (() => { setError(null); error.retry!(); })}
+                onDismiss={() => setError(null)}
+              />
+            )}
+
+            {candidates.length > 0 && (
+              <CandidateGrid
+                candidates={candidates}
+                isAnalyzing={isScoringCandidates}
+                onKeep={handleKeepCandidates}
+                onDiscardAll={() => setCandidates([])}
+              />
             )}
 
             <div className="flex-1 flex flex-col lg:flex-row gap-8">
@@ -225,29 +880,97 @@ const App: React.FC = () => {
                 <>
                   {/* Left: Image Display */}
                   <div className="flex-1 flex flex-col gap-4">
-                    <div className="relative group rounded-lg overflow-hidden shadow-2xl border border-zinc-800 bg-zinc-900/50 self-start max-w-full">
-                      <img 
-                        src={currentImage.url} 
-                        alt="Generated Result" 
-                        className="max-h-[60vh] lg:max-h-[70vh] object-contain"
+                    {isEditMode ? (
+                      <MaskEditor
+                        key={currentImage.id}
+                        imageUrl={currentImage.url}
+                        isLoading={isEditing}
+                        onApply={handleApplyEdit}
+                        onCancel={handleCancelEdit}
                       />
-                      <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button 
-                          onClick={handleDownload}
-                          className="p-2 bg-zinc-900/80 text-white rounded-lg hover:bg-blue-600 transition-colors backdrop-blur-sm border border-zinc-700"
-                          title="Download PNG"
-                        >
-                          <Download size={20} />
-                        </button>
+                    ) : (
+                      <div className="relative group rounded-lg overflow-hidden shadow-2xl border border-zinc-800 bg-zinc-900/50 self-start max-w-full">
+                        <img 
+                          src={currentImage.url} 
+                          alt="Generated Result" 
+                          className="max-h-[60vh] lg:max-h-[70vh] object-contain"
+                        />
+                        <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                          <button 
+                            onClick={() => setIsEditMode(true)}
+                            className="p-2 bg-zinc-900/80 text-white rounded-lg hover:bg-blue-600 transition-colors backdrop-blur-sm border border-zinc-700"
+                            title="Edit with mask"
+                          >
+                            <PenTool size={20} />
+                          </button>
+                          <button 
+                            onClick={handleDownload}
+                            className="p-2 bg-zinc-900/80 text-white rounded-lg hover:bg-blue-600 transition-colors backdrop-blur-sm border border-zinc-700"
+                            title="Download PNG"
+                          >
+                            <Download size={20} />
+                          </button>
+                          <button 
+                            onClick={() => handleDownloadJpeg()}
+                            disabled={isExporting}
+                            className="p-2 bg-zinc-900/80 text-white rounded-lg hover:bg-blue-600 transition-colors backdrop-blur-sm border border-zinc-700 disabled:opacity-50"
+                            title={`Download JPEG (quality ${jpegQuality}) with embedded metadata`}
+                          >
+                            <FileDown size={20} />
+                          </button>
+                        </div>
                       </div>
-                    </div>
+                    )}
                     <div className="flex gap-4 text-zinc-500 text-xs">
-                      <span>{currentImage.params.quality}</span>
+                      <span title={currentImage.file ? `Requested ${currentImage.params.quality}` : 'Measuring...'}>
+                        {currentImage.file ? describeImageFile(currentImage.file) : currentImage.params.quality}
+                      </span>
                       <span>•</span>
                       <span>{currentImage.params.aspectRatio}</span>
                       <span>•</span>
-                      <span className="capitalize">{currentImage.params.style}</span>
+                      <span className="capitalize">{getStyleLabel(currentImage.params)}</span>
                     </div>
+                    <GenerationDetails
+                      image={currentImage}
+                      isRerunning={isRerunning}
+                      onRerun={() => handleRerunExactly(currentImage)}
+                      onCancelRerun={() => rerunAbortRef.current?.abort()}
+                    />
+                    {currentImage.autoFix && (
+                      <p className="text-xs text-zinc-500">
+                        <span className="text-zinc-400 font-medium">Auto-fix:</span> attempt {currentImage.autoFix.attempt} of up to {currentImage.autoFix.maxAttempts}
+                        {currentImage.params.constraints && currentImage.params.constraints.length > 0 && (
+                          <> · constraints: {currentImage.params.constraints.join('; ')}</>
+                        )}
+                      </p>
+                    )}
+                    {currentImage.parentId && (
+                      <button
+                        onClick={() => handleSelectImageById(currentImage.parentId!)}
+                        className="flex items-center gap-1.5 text-xs text-blue-400 hover:text-blue-300 self-start"
+                        title={currentImage.edit?.instruction}
+                      >
+                        <CornerUpLeft size={12} />
+                        {currentImage.edit
+                          ? `Edited from parent image: "${currentImage.edit.instruction}"`
+                          : currentImage.upscale
+                            ? `Upscaled from parent image: ${currentImage.upscale.sourceWidth}×${currentImage.upscale.sourceHeight} → ${currentImage.upscale.width}×${currentImage.upscale.height}`
+                            : 'Re-run of parent image'}
+                      </button>
+                    )}
+                    {currentImage.params.referenceImages && currentImage.params.referenceImages.length > 0 && (
+                      <div className="flex items-center gap-2 text-xs text-zinc-500">
+                        <span className="text-zinc-400 font-medium">References:</span>
+                        {currentImage.params.referenceImages.map(ref => (
+                          <img key={ref.id} src={ref.url} alt={ref.role} title={ref.role} className="w-8 h-8 object-cover rounded border border-zinc-700" />
+                        ))}
+                      </div>
+                    )}
+                    {currentImage.params.negativePrompt && (
+                      <p className="text-xs text-zinc-500">
+                        <span className="text-zinc-400 font-medium">Excluded:</span> {currentImage.params.negativePrompt}
+                      </p>
+                    )}
                   </div>
 
                   {/* Right: Metadata & Quality Tabs */}
@@ -281,15 +1004,31 @@ const App: React.FC = () => {
 
                      {activeTab === 'metadata' ? (
                        <MetadataPanel 
+                          key={currentImage.id}
                           metadata={currentImage.metadata} 
                           isLoading={isGeneratingMetadata}
                           onGenerate={handleGenerateMetadata}
+                          onCancel={() => metadataAbortRef.current?.abort()}
+                          onChange={(metadata) => updateImageMetadata(currentImage.id, metadata)}
+                          targetLanguages={targetLanguages}
+                          onTargetLanguagesChange={handleTargetLanguagesChange}
+                          isTranslating={isTranslating}
+                          onTranslate={handleTranslateMetadata}
+                          jpegQuality={jpegQuality}
+                          onJpegQualityChange={setJpegQuality}
+                          authorName={authorName}
+                          onAuthorNameChange={handleAuthorNameChange}
+                          isExporting={isExporting}
+                          onExportJpeg={handleDownloadJpeg}
+                          brandSettings={brandSettings}
                        />
                      ) : (
                        <QualityInspector 
                           assessment={currentImage.qualityAssessment}
                           isLoading={isAnalyzingQuality}
                           onAnalyze={handleAnalyzeQuality}
+                          onEdit={() => setIsEditMode(true)}
+                          onCancel={() => qualityAbortRef.current?.abort()}
                        />
                      )}
                   </div>
@@ -304,7 +1043,10 @@ const App: React.FC = () => {
                     Select a style, define your resolution (up to 4K), and enter a prompt. 
                     Try the examples below to get started.
                   </p>
-                  <PromptLibrary onSelect={(p) => setParams(prev => ({ ...prev, prompt: p }))} />
+                  <PromptLibrary
+                    onSelect={(p) => setParams(prev => ({ ...prev, prompt: p }))}
+                    onOpenTemplates={() => setShowTemplates(true)}
+                  />
                 </div>
               )}
             </div>
@@ -312,12 +1054,33 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {/* Generation Queue */}
+        <div className="shrink-0">
+          <QueuePanel
+            jobs={jobs}
+            concurrency={concurrency}
+            onConcurrencyChange={handleConcurrencyChange}
+            onPause={queue.pause}
+            onResume={queue.resume}
+            onCancel={queue.cancel}
+            onRetry={queue.retry}
+            onPauseAll={queue.pauseAll}
+            onResumeAll={queue.resumeAll}
+            onClearFinished={queue.clearFinished}
+            onSelectImage={handleSelectImageById}
+          />
+        </div>
+
         {/* History Gallery */}
         <div className="shrink-0">
           <Gallery 
             images={history} 
-            onSelect={setCurrentImage}
+            onSelect={handleSelectImage}
             onDelete={handleDelete}
+            onUseAsReference={handleUseAsReference}
+            selectedIds={selectedIds}
+            onSelectionChange={setSelectedIds}
+            onExportSelected={() => setShowBulkExport(true)}
           />
         </div>
 
@@ -326,7 +1089,80 @@ const App: React.FC = () => {
           <ContributorGuide 
             image={currentImage}
             metadata={currentImage.metadata}
-            onClose={() => setShowGuide(false)}
+            brandSettings={brandSettings}
+            isUpscaling={isUpscaling}
+            upscaleNote={upscaleNote}
+            onUpscale={(platform, sharpen) => handleUpscale(currentImage, platform, sharpen)}
+            onCancelUpscale={() => upscaleAbortRef.current?.abort()}
+            onClose={() => {
+              setShowGuide(false);
+              setUpscaleNote(null);
+            }}
+          />
+        )}
+
+        {/* Template Modal */}
+        {showTemplates && (
+          <TemplateBuilder
+            baseParams={params}
+            blockOnLintErrors={blockOnLintErrors}
+            onEnqueue={handleEnqueueSeries}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
+
+        {/* Style Preset Modal */}
+        {showStyles && (
+          <StylePresetManager
+            presets={stylePresets}
+            initialPresetId={params.customStyle?.id}
+            onChange={handleStylePresetsChange}
+            onClose={() => setShowStyles(false)}
+          />
+        )}
+
+        {/* Brand Rules Modal */}
+        {showBrands && (
+          <BrandRulesManager
+            settings={brandSettings}
+            onChange={handleBrandSettingsChange}
+            onClose={() => setShowBrands(false)}
+          />
+        )}
+
+        {/* Bulk Export Modal */}
+        {showBulkExport && (
+          <BulkExportPanel
+            images={history.filter(img => selectedIds.includes(img.id))}
+            jpegQuality={jpegQuality}
+            authorName={authorName}
+            onClose={() => setShowBulkExport(false)}
+          />
+        )}
+
+        {/* Prompt Enhancer Modal */}
+        {enhancement && (
+          <PromptEnhancer
+            original={enhancement.original}
+            enhanced={enhancement.enhanced}
+            strategy={enhancement.strategy}
+            isLoading={isEnhancing}
+            onRewrite={handleEnhancePrompt}
+            onAccept={handleAcceptEnhancement}
+            onReject={handleRejectEnhancement}
+          />
+        )}
+
+        {/* Usage Modal */}
+        {showUsage && (
+          <UsagePanel
+            entries={usageLedger}
+            images={history}
+            prices={priceTable}
+            onPricesChange={handlePricesChange}
+            onClear={() => setUsageLedger([])}
+            onSelectImage={(image) => { handleSelectImage(image); setShowUsage(false); }}
+            onClose={() => setShowUsage(false)}
           />
         )}
 
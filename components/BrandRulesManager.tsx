@@ -0,0 +1,205 @@
+import React, { useRef, useState } from 'react';
+import { BrandList, BrandSettings } from '../types';
+import {
+  BUILTIN_BRAND_TERMS,
+  createBrandList,
+  exportBrandSettings,
+  importBrandSettings,
+  parseTermList
+} from '../services/brandService';
+import { downloadBlob } from '../services/exportService';
+import { Button } from './Button';
+import { ShieldAlert, XCircle, Plus, Trash2, Upload, Download } from 'lucide-react';
+
+interface BrandRulesManagerProps {
+  settings: BrandSettings;
+  onChange: (settings: BrandSettings) => void;
+  onClose: () => void;
+}
+
+export const BrandRulesManager: React.FC<BrandRulesManagerProps> = ({ settings, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(settings.lists[0]?.id ?? null);
+  // Term lists are edited as text and parsed on blur, so typing a comma does not reflow the textarea
+  const [allowlistDraft, setAllowlistDraft] = useState<string>(settings.allowlist.join('\n'));
+  const [termsDraft, setTermsDraft] = useState<string>(settings.lists[0]?.terms.join('\n') ?? '');
+  const [note, setNote] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = settings.lists.find(list => list.id === selectedId) ?? null;
+
+  const selectList = (list: BrandList | null) => {
+    setSelectedId(list?.id ?? null);
+    setTermsDraft(list?.terms.join('\n') ?? '');
+  };
+
+  const updateList = (id: string, changes: Partial<BrandList>) => {
+    onChange({ ...settings, lists: settings.lists.map(list => list.id === id ? { ...list, ...changes } : list) });
+  };
+
+  const handleAddList = () => {
+    const list = createBrandList(`Team list ${settings.lists.length + 1}`);
+    onChange({ ...settings, lists: [...settings.lists, list] });
+    selectList(list);
+  };
+
+  const handleDeleteList = (id: string) => {
+    const remaining = settings.lists.filter(list => list.id !== id);
+    onChange({ ...settings, lists: remaining });
+    if (id === selectedId) selectList(remaining[0] ?? null);
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportBrandSettings(settings)], { type: 'application/json' }), 'genstudio-brands.json');
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const result = importBrandSettings(String(reader.result || ''), file.name, settings);
+        onChange(result.settings);
+        setAllowlistDraft(result.settings.allowlist.join('\n'));
+        const current = result.settings.lists.find(list => list.id === selectedId) ?? result.settings.lists[0] ?? null;
+        selectList(current);
+        setNote(`Imported from ${file.name}: ${result.added} lists added, ${result.updated} updated, ${result.allowlisted} allowlist phrases added.`);
+      } catch (err) {
+        setNote(err instanceof Error ? err.message : String(err));
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-zinc-900 rounded-t-xl">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <ShieldAlert className="text-blue-400" />
+              Brand Rules
+            </h2>
+            <p className="text-sm text-zinc-400">Banned terms checked in titles, descriptions and keywords, and phrases that are always allowed.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <XCircle size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex">
+          {/* Lists */}
+          <div className="w-56 shrink-0 border-r border-zinc-800 p-3 space-y-1 overflow-y-auto">
+            <button
+              onClick={handleAddList}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-xs text-blue-400 hover:bg-zinc-800"
+            >
+              <Plus size={14} /> New list
+            </button>
+            {settings.lists.map(list => (
+              <div
+                key={list.id}
+                className={`flex items-center gap-2 px-3 py-2 rounded-md text-xs transition-colors ${
+                  selectedId === list.id ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:bg-zinc-800/50'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={list.enabled}
+                  onChange={() => updateList(list.id, { enabled: !list.enabled })}
+                  title={list.enabled ? 'Checked during validation' : 'Ignored during validation'}
+                  className="accent-blue-500"
+                />
+                <button onClick={() => selectList(list)} className="flex-1 text-left truncate">
+                  {list.name}
+                  <span className="ml-1 text-[10px] text-zinc-600">{list.terms.length}</span>
+                </button>
+              </div>
+            ))}
+            <div className="pt-3 mt-3 border-t border-zinc-800 space-y-1">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-xs text-zinc-400 hover:bg-zinc-800"
+                title="A genstudio.brands JSON export, or a text file with one term per line"
+              >
+                <Upload size={14} /> Import
+              </button>
+              <input ref={fileInputRef} type="file" accept=".json,.txt,.csv,application/json,text/plain" className="hidden" onChange={handleImport} />
+              <button
+                onClick={handleExport}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-xs text-zinc-400 hover:bg-zinc-800"
+              >
+                <Download size={14} /> Export all
+              </button>
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            {note && <p className="text-[10px] text-zinc-500">{note}</p>}
+
+            {selected && (
+              <div className="space-y-2">
+                <div className="flex items-end gap-3">
+                  <input
+                    type="text"
+                    value={selected.name}
+                    onChange={(e) => updateList(selected.id, { name: e.target.value })}
+                    className="flex-1 bg-transparent border-b border-zinc-800 pb-1 text-lg font-medium text-zinc-100 focus:outline-none focus:border-blue-500"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteList(selected.id)} icon={<Trash2 className="w-3 h-3" />}>
+                    Delete
+                  </Button>
+                </div>
+                <textarea
+                  value={termsDraft}
+                  onChange={(e) => setTermsDraft(e.target.value)}
+                  onBlur={() => updateList(selected.id, { terms: parseTermList(termsDraft) })}
+                  placeholder={"acme\nglobex corp\nwidget pro"}
+                  className="w-full h-40 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-xs font-mono text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
+                <p className="text-[10px] text-zinc-600">
+                  One term per line. Matches whole words only, including plurals, possessives and spaced or hyphenated spellings.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Allowlist</label>
+              <textarea
+                value={allowlistDraft}
+                onChange={(e) => setAllowlistDraft(e.target.value)}
+                onBlur={() => onChange({ ...settings, allowlist: parseTermList(allowlistDraft) })}
+                placeholder={"apple pie\ngalaxy background"}
+                className="w-full h-28 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-xs font-mono text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+              <p className="text-[10px] text-zinc-600">
+                Banned terms inside these phrases are not flagged. A phrase that is just a banned term turns that term off.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Built-in Terms</label>
+              <div className="flex flex-wrap gap-1">
+                {BUILTIN_BRAND_TERMS.map(term => (
+                  <span key={term} className="px-2 py-0.5 rounded text-[10px] bg-zinc-800 text-zinc-400 border border-zinc-700">
+                    {term}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end px-6 py-4 border-t border-zinc-800">
+          <Button size="sm" onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
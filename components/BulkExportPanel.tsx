@@ -0,0 +1,186 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { GeneratedImage, MetadataLanguage, StockPlatform } from '../types';
+import { METADATA_LANGUAGES, STOCK_PLATFORMS } from '../constants';
+import { buildPlatformCsv, csvFileName } from '../services/csvExportService';
+import { exportJpeg, exportFileName, downloadBlob } from '../services/exportService';
+import { CancelledError } from '../services/errors';
+import { getTranslatedLanguages } from '../services/translationService';
+import { Button } from './Button';
+import { FileSpreadsheet, XCircle, Download, AlertTriangle, Images } from 'lucide-react';
+
+interface BulkExportPanelProps {
+  images: GeneratedImage[];
+  jpegQuality: number;
+  authorName: string;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 20;
+
+export const BulkExportPanel: React.FC<BulkExportPanelProps> = ({ images, jpegQuality, authorName, onClose }) => {
+  const [platform, setPlatform] = useState<StockPlatform>('Adobe Stock');
+  const [language, setLanguage] = useState<MetadataLanguage | ''>('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [note, setNote] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const result = useMemo(() => buildPlatformCsv(images, platform, language || undefined), [images, platform, language]);
+  const exportable = images.filter(img => img.metadata);
+  // Offer every language at least one selected image has been translated into
+  const languages = (Object.keys(METADATA_LANGUAGES) as MetadataLanguage[]).filter(lang =>
+    exportable.some(img => getTranslatedLanguages(img.metadata!).includes(lang))
+  );
+
+  const handleDownloadCsv = () => {
+    downloadBlob(new Blob([result.csv], { type: 'text/csv;charset=utf-8' }), csvFileName(platform, language || undefined));
+  };
+
+  // JPEGs are encoded one at a time; each worker holds a full-size RGBA copy of its image
+  const handleDownloadAll = async () => {
+    handleDownloadCsv();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setNote(null);
+    setProgress({ done: 0, total: exportable.length });
+    try {
+      for (let i = 0; i < exportable.length; i++) {
+        const image = exportable[i];
+        const blob = await exportJpeg(image, jpegQuality, controller.signal, language || undefined, authorName);
+        downloadBlob(blob, exportFileName(image, 'jpg'));
+        setProgress({ done: i + 1, total: exportable.length });
+      }
+    } catch (err) {
+      if (!(err instanceof CancelledError)) {
+        setNote(err instanceof Error ? err.message : String(err));
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl w-full max-w-5xl max-h-[90vh] flex flex-col shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-zinc-900 rounded-t-xl">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <FileSpreadsheet className="text-blue-400" />
+              Bulk CSV Export
+            </h2>
+            <p className="text-sm text-zinc-400">
+              {exportable.length} of {images.length} selected images have metadata. Filenames match the JPEG export.
+            </p>
+          </div>
+          <button onClick={handleClose} className="text-zinc-500 hover:text-white transition-colors">
+            <XCircle size={24} />
+          </button>
+        </div>
+
+        {/* Platform tabs */}
+        <div className="flex items-center border-b border-zinc-800 px-6">
+          {(Object.keys(STOCK_PLATFORMS) as StockPlatform[]).map(p => (
+            <button
+              key={p}
+              onClick={() => setPlatform(p)}
+              className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                platform === p ? 'border-blue-500 text-white' : 'border-transparent text-zinc-500 hover:text-zinc-300'
+              }`}
+            >
+              {p}
+            </button>
+          ))}
+          {languages.length > 0 && (
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as MetadataLanguage | '')}
+              className="ml-auto bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs text-zinc-100 focus:ring-2 focus:ring-blue-500"
+              title="Language of the titles, descriptions and keywords in the CSV and JPEGs"
+            >
+              <option value="">English</option>
+              {languages.map(lang => (
+                <option key={lang} value={lang}>{METADATA_LANGUAGES[lang]}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {/* Preview */}
+          <div className="overflow-x-auto rounded-lg border border-zinc-800">
+            <table className="w-full text-xs text-left">
+              <thead className="bg-zinc-800/60 text-zinc-400">
+                <tr>
+                  {result.headers.map(h => <th key={h} className="px-3 py-2 font-semibold whitespace-nowrap">{h}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800">
+                {result.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                  <tr key={i} className="text-zinc-300">
+                    {row.map((cell, j) => (
+                      <td key={j} className="px-3 py-2 max-w-xs truncate" title={cell}>{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {result.rows.length > PREVIEW_ROWS && (
+              <p className="px-3 py-2 text-[10px] text-zinc-600">…and {result.rows.length - PREVIEW_ROWS} more rows</p>
+            )}
+          </div>
+
+          {result.skipped.length > 0 && (
+            <p className="text-xs text-zinc-500">
+              Skipped {result.skipped.length} image{result.skipped.length === 1 ? '' : 's'} without metadata.
+            </p>
+          )}
+
+          {result.warnings.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-xs font-semibold uppercase tracking-wider text-zinc-500 flex items-center gap-1">
+                <AlertTriangle size={12} className="text-yellow-500" /> {result.warnings.length} warnings
+              </h3>
+              <ul className="space-y-1 text-xs">
+                {result.warnings.map((w, i) => (
+                  <li key={i} className="text-zinc-400">
+                    <span className="font-mono text-zinc-500">{w.filename}</span> — {w.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {note && <p className="text-xs text-red-400">{note}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between items-center px-6 py-4 border-t border-zinc-800">
+          <span className="text-xs text-zinc-500">
+            {progress ? `Encoding JPEG ${Math.min(progress.done + 1, progress.total)} of ${progress.total}…` : `JPEG quality ${jpegQuality}`}
+          </span>
+          <div className="flex gap-2">
+            {progress ? (
+              <Button variant="ghost" size="sm" onClick={() => abortRef.current?.abort()}>
+                Cancel
+              </Button>
+            ) : (
+              <Button variant="secondary" size="sm" onClick={handleDownloadAll} disabled={exportable.length === 0} icon={<Images className="w-3 h-3" />}>
+                CSV + JPEGs
+              </Button>
+            )}
+            <Button size="sm" onClick={handleDownloadCsv} disabled={exportable.length === 0 || !!progress} icon={<Download className="w-3 h-3" />}>
+              Download CSV
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
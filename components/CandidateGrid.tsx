@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GeneratedImage } from '../types';
+import { rankCandidates } from '../services/rankingService';
+import { Button } from './Button';
+import { Grid2x2, Check, Trophy, Trash2, Loader2 } from 'lucide-react';
+
+interface CandidateGridProps {
+  candidates: GeneratedImage[];
+  isAnalyzing: boolean;
+  onKeep: (keepIds: string[]) => void;
+  onDiscardAll: () => void;
+}
+
+export const CandidateGrid: React.FC<CandidateGridProps> = ({ candidates, isAnalyzing, onKeep, onDiscardAll }) => {
+  const ranked = useMemo(() => rankCandidates(candidates), [candidates]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  // Pre-select the winner once analysis settles
+  useEffect(() => {
+    if (!isAnalyzing && ranked.length > 0) {
+      setSelected(new Set([ranked[0].image.id]));
+    }
+  }, [isAnalyzing]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const scoreClass = (score: number | null) =>
+    score === null ? 'text-zinc-500' : score >= 80 ? 'text-green-400' : score >= 60 ? 'text-yellow-400' : 'text-red-400';
+
+  return (
+    <div className="mb-6 bg-zinc-900 border border-zinc-800 rounded-xl overflow-hidden">
+      <div className="px-4 py-3 border-b border-zinc-800 bg-zinc-800/30 flex items-center justify-between">
+        <h3 className="font-medium text-zinc-200 flex items-center gap-2">
+          <Grid2x2 className="w-4 h-4 text-blue-400" />
+          Candidates
+          {isAnalyzing && (
+            <span className="flex items-center gap-1 text-[10px] text-zinc-500 font-normal">
+              <Loader2 size={10} className="animate-spin" /> Scoring...
+            </span>
+          )}
+        </h3>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={onDiscardAll} icon={<Trash2 className="w-3 h-3" />}>
+            Discard all
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => onKeep(ranked.filter(c => selected.has(c.image.id)).map(c => c.image.id))}
+            disabled={selected.size === 0}
+            icon={<Check className="w-3 h-3" />}
+          >
+            Keep {selected.size} &amp; discard rest
+          </Button>
+        </div>
+      </div>
+
+      <div className="p-4 grid grid-cols-2 md:grid-cols-4 gap-3">
+        {ranked.map(({ image, rank, qualityScore, metadataScore, combinedScore }) => {
+          const isSelected = selected.has(image.id);
+          return (
+            <button
+              key={image.id}
+              onClick={() => toggle(image.id)}
+              className={`relative rounded-lg overflow-hidden border-2 text-left transition-colors ${
+                isSelected ? 'border-blue-500' : 'border-zinc-800 hover:border-zinc-600'
+              }`}
+            >
+              <img src={image.url} alt={`Candidate ${rank}`} className="w-full aspect-square object-cover" />
+              <span className="absolute top-2 left-2 flex items-center gap-1 px-1.5 py-0.5 rounded bg-zinc-900/80 text-[10px] text-zinc-200 border border-zinc-700">
+                {rank === 1 && combinedScore !== null && <Trophy size={10} className="text-yellow-400" />}
+                #{rank}
+              </span>
+              {isSelected && (
+                <span className="absolute top-2 right-2 p-0.5 rounded-full bg-blue-600 text-white">
+                  <Check size={12} />
+                </span>
+              )}
+              <div className="grid grid-cols-3 text-center text-[10px] bg-zinc-950/90 py-1.5">
+                <div>
+                  <div className="text-zinc-500 uppercase">Quality</div>
+                  <div className={`font-semibold ${scoreClass(qualityScore)}`}>{qualityScore ?? '–'}</div>
+                </div>
+                <div>
+                  <div className="text-zinc-500 uppercase">Meta</div>
+                  <div className={`font-semibold ${scoreClass(metadataScore)}`}>{metadataScore ?? '–'}</div>
+                </div>
+                <div>
+                  <div className="text-zinc-500 uppercase">Total</div>
+                  <div className={`font-semibold ${scoreClass(combinedScore)}`}>{combinedScore ?? '–'}</div>
+                </div>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
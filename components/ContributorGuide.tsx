@@ -1,7 +1,10 @@
 
 import React, { useState } from 'react';
-import { GeneratedImage, ImageQuality, ImageMetadata } from '../types';
+import { BrandSettings, GeneratedImage, ImageMetadata, StockPlatform } from '../types';
+import { STOCK_PLATFORMS } from '../constants';
 import { validateMetadata } from '../services/validatorService';
+import { getCategoryLabel, getPlatformCategories } from '../services/categoryService';
+import { getMegapixels, describeImageFile } from '../services/imageInfoService';
 import { Button } from './Button';
 import { 
   CheckCircle, 
@@ -11,87 +14,61 @@ import {
   FileText, 
   Globe, 
   ShieldAlert, 
-  Info
+  Info,
+  Maximize
 } from 'lucide-react';
 
 interface ContributorGuideProps {
   image: GeneratedImage;
   metadata?: ImageMetadata;
+  brandSettings: BrandSettings;
+  isUpscaling: boolean;
+  upscaleNote: string | null; // shown when the last upscale had nothing to do
+  onUpscale: (platform: StockPlatform, sharpen: number) => void;
+  onCancelUpscale: () => void;
   onClose: () => void;
 }
 
-type Platform = 'Adobe Stock' | 'Shutterstock' | 'iStock/Getty';
+// Unsharp-mask amount used when "Sharpen" is ticked
+const UPSCALE_SHARPEN_AMOUNT = 0.5;
 
-const PLATFORMS: Record<Platform, {
-  minMP: number;
-  formats: string[];
-  titleLen: [number, number];
-  keywords: [number, number];
-  reviewTime: string;
-  prohibited: string[];
-  color: string;
-}> = {
-  'Adobe Stock': {
-    minMP: 4,
-    formats: ['JPEG'],
-    titleLen: [5, 70], // strict display limit
-    keywords: [5, 50],
-    reviewTime: '3-5 Days',
-    prohibited: ['Editorial Use Only (for AI)', 'Famous People', 'Logos'],
-    color: 'border-red-500 text-red-500'
-  },
-  'Shutterstock': {
-    minMP: 4,
-    formats: ['JPEG', 'EPS'],
-    titleLen: [20, 200],
-    keywords: [7, 50],
-    reviewTime: '1-3 Days',
-    prohibited: ['Bio-metric data', 'Copyrighted Characters', 'Brand Names'],
-    color: 'border-red-600 text-red-600'
-  },
-  'iStock/Getty': {
-    minMP: 3, // roughly
-    formats: ['JPEG'],
-    titleLen: [5, 80],
-    keywords: [5, 50],
-    reviewTime: '1-2 Weeks',
-    prohibited: ['Specific Buildings (Prop Release)', 'Visible Tattoos (Model Release)'],
-    color: 'border-blue-500 text-blue-500'
-  }
-};
-
-export const ContributorGuide: React.FC<ContributorGuideProps> = ({ image, metadata, onClose }) => {
-  const [activePlatform, setActivePlatform] = useState<Platform>('Adobe Stock');
-  const platform = PLATFORMS[activePlatform];
+export const ContributorGuide: React.FC<ContributorGuideProps> = ({ image, metadata, brandSettings, isUpscaling, upscaleNote, onUpscale, onCancelUpscale, onClose }) => {
+  const [activePlatform, setActivePlatform] = useState<StockPlatform>('Adobe Stock');
+  const [sharpen, setSharpen] = useState<boolean>(true);
+  const platform = STOCK_PLATFORMS[activePlatform];
 
-  // Resolution Check
-  const is1K = image.params.quality === ImageQuality.ONE_K; // ~1MP
-  const is2K = image.params.quality === ImageQuality.TWO_K; // ~4MP
-  const is4K = image.params.quality === ImageQuality.FOUR_K; // ~16MP
-  
-  const currentMP = is1K ? 1 : (is2K ? 4.2 : 16.8);
-  const resPass = currentMP >= platform.minMP;
+  // Resolution Check, on the decoded pixels rather than the requested quality tier
+  const currentMP = image.file ? getMegapixels(image.file) : null;
+  const resPass = currentMP !== null && currentMP >= platform.minMP;
+  const fileSummary = image.file ? describeImageFile(image.file) : null;
 
-  // Metadata Check
-  const validation = metadata ? validateMetadata(metadata) : null;
+  // Metadata Check, scored with this platform's profile
+  const validation = metadata ? validateMetadata(metadata, activePlatform, brandSettings) : null;
   const metadataScore = validation?.score || 0;
-  const metadataPass = metadataScore > 80;
+  const metadataErrors = validation?.issues.filter(issue => issue.type === 'error') ?? [];
+  const metadataPass = metadataScore >= platform.passScore && metadataErrors.length === 0;
 
   // Compliance Checks
   const checklist = [
     {
       label: "Image Resolution",
       pass: resPass,
-      msg: resPass 
-        ? `Quality ${image.params.quality} (~${currentMP.toFixed(1)} MP) meets minimum ${platform.minMP} MP requirement.`
-        : `Quality ${image.params.quality} (~${currentMP.toFixed(1)} MP) is too low. Use 2K or 4K settings.`
+      msg: currentMP === null
+        ? "Image dimensions have not been measured yet."
+        : resPass
+          ? `${fileSummary} meets minimum ${platform.minMP} MP requirement.`
+          : `${fileSummary} is below the ${platform.minMP} MP minimum. Upscale it or use 2K or 4K settings.`
     },
     {
       label: "Metadata Quality",
       pass: metadataPass,
-      msg: metadataPass 
-        ? "Metadata score is healthy." 
-        : "Metadata needs improvement (Score < 80). Check the Metadata panel."
+      msg: !validation
+        ? "No metadata yet. Generate it in the Metadata panel."
+        : metadataPass
+          ? `Score ${metadataScore}/100 against ${activePlatform} rules.`
+          : metadataErrors.length > 0
+            ? `Score ${metadataScore}/100. ${metadataErrors[0].message}`
+            : `Score ${metadataScore}/100, below the ${platform.passScore} needed for ${activePlatform}. Check the Metadata panel.`
     },
     {
       label: "AI Marking",
@@ -103,7 +80,7 @@ export const ContributorGuide: React.FC<ContributorGuideProps> = ({ image, metad
     {
       label: "Format",
       pass: true,
-      msg: `Platform requires ${platform.formats.join(' or ')}. Ensure you download as PNG and convert to High-Quality JPEG.`
+      msg: `Platform requires ${platform.formats.join(' or ')}. Use Export JPEG in the Metadata panel for a full-quality JPEG without chroma subsampling.`
     }
   ];
 
@@ -117,18 +94,18 @@ Generated by GenStudio Pro
 - **Title:** ${metadata.title}
 - **Description:** ${metadata.description}
 - **Keywords:** ${metadata.keywords.join(', ')}
-- **Category:** ${metadata.category}
+- **Category:** ${getPlatformCategories(metadata, activePlatform).map(id => getCategoryLabel(activePlatform, id)).join(', ') || metadata.category}
 - **Content Type:** ${metadata.contentType}
 - **AI Generated:** Yes
 
 ## ${activePlatform} Checklist
-[${resPass ? 'x' : ' '}] Resolution > ${platform.minMP} MP (Current: ${image.params.quality})
-[${metadataPass ? 'x' : ' '}] Metadata Validated
+[${resPass ? 'x' : ' '}] Resolution >= ${platform.minMP} MP (Current: ${fileSummary ?? 'not measured'})
+[${metadataPass ? 'x' : ' '}] Metadata Validated (Score: ${validation ? `${metadataScore}/100` : 'n/a'})
 [x] No Logos/Brands (Visual Check Required)
 
 ## Step-by-Step Upload
-1. **Export:** Convert your downloaded PNG to JPEG (Quality 100, No Subsampling).
-2. **Embed:** Use Adobe Bridge, Photoshop, or ExifTool to embed the Title, Description, and Keywords into the IPTC fields.
+1. **Export:** Use Export JPEG in GenStudio Pro (quality 95-100, no chroma subsampling).
+2. **Embed:** The export already carries Title, Description, Keywords, Author and the AI disclosure in IPTC and XMP. Only re-embed if you edit the file elsewhere.
 3. **Upload:** Log in to ${activePlatform} Contributor Portal.
 4. **Tagging:**
    - Ensure "Created with Generative AI" checkbox is ticked.
@@ -174,7 +151,7 @@ ${platform.prohibited.map(p => `- ${p}`).join('\n')}
 
         {/* Tabs */}
         <div className="flex border-b border-zinc-800 bg-zinc-950/50 px-6 pt-2 gap-1">
-          {(Object.keys(PLATFORMS) as Platform[]).map((p) => (
+          {(Object.keys(STOCK_PLATFORMS) as StockPlatform[]).map((p) => (
             <button
               key={p}
               onClick={() => setActivePlatform(p)}
@@ -229,7 +206,27 @@ ${platform.prohibited.map(p => `- ${p}`).join('\n')}
                    <span className="text-[10px] uppercase text-zinc-500 block">Min Resolution</span>
                    <span className="text-sm font-medium text-zinc-300">{platform.minMP} Megapixels</span>
                 </div>
+                <div className="p-3 bg-zinc-800/30 rounded border border-zinc-800">
+                   <span className="text-[10px] uppercase text-zinc-500 block">{platform.titleField === 'title' ? 'Title' : 'Description'} Length</span>
+                   <span className="text-sm font-medium text-zinc-300">{platform.titleLen[0]}-{platform.titleLen[1]} chars</span>
+                </div>
+                <div className="p-3 bg-zinc-800/30 rounded border border-zinc-800">
+                   <span className="text-[10px] uppercase text-zinc-500 block">Keywords</span>
+                   <span className="text-sm font-medium text-zinc-300">{platform.keywords[0]}-{platform.keywords[1]} (aim for {platform.recommendedKeywords}+)</span>
+                </div>
               </div>
+              {validation && validation.issues.length > 0 && (
+                <ul className="mt-3 space-y-1">
+                  {validation.issues.map((issue, i) => (
+                    <li
+                      key={i}
+                      className={`text-xs ${issue.type === 'error' ? 'text-red-300' : issue.type === 'warning' ? 'text-yellow-300/80' : 'text-zinc-500'}`}
+                    >
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
               <div className="mt-3 p-3 bg-red-900/10 rounded border border-red-900/20">
                  <span className="text-[10px] uppercase text-red-400 block mb-1">Prohibited Content</span>
                  <ul className="list-disc pl-4">
@@ -255,8 +252,36 @@ ${platform.prohibited.map(p => `- ${p}`).join('\n')}
                    <p className="text-zinc-200 font-medium">Prepare File</p>
                    <p className="text-xs mt-1">
                      Upscale to {platform.minMP}MP+ if needed. Ensure 100% quality JPEG. 
-                     {image.params.quality === '1K' && <span className="text-red-400 block mt-1">Warning: Current 1K image is likely too small.</span>}
+                     {currentMP !== null && !resPass && <span className="text-red-400 block mt-1">Warning: Current image is {currentMP.toFixed(1)} MP, too small for {activePlatform}.</span>}
                    </p>
+                   {currentMP !== null && !resPass && (
+                     <div className="mt-2 flex items-center gap-3">
+                       <Button
+                         variant="secondary"
+                         size="sm"
+                         onClick={() => onUpscale(activePlatform, sharpen ? UPSCALE_SHARPEN_AMOUNT : 0)}
+                         isLoading={isUpscaling}
+                         icon={<Maximize className="w-3 h-3" />}
+                         title="Lanczos upscale on this device; saved as a new image next to the original"
+                       >
+                         Upscale to {platform.minMP} MP
+                       </Button>
+                       {isUpscaling ? (
+                         <button onClick={onCancelUpscale} className="text-xs text-zinc-500 hover:text-zinc-300">Cancel</button>
+                       ) : (
+                         <label className="flex items-center gap-1.5 text-xs text-zinc-500 cursor-pointer">
+                           <input
+                             type="checkbox"
+                             checked={sharpen}
+                             onChange={() => setSharpen(!sharpen)}
+                             className="rounded border-zinc-700 bg-zinc-800"
+                           />
+                           Sharpen
+                         </label>
+                       )}
+                     </div>
+                   )}
+                   {upscaleNote && <p className="text-xs text-zinc-500 mt-2">{upscaleNote}</p>}
                  </div>
                </div>
 
@@ -264,7 +289,7 @@ ${platform.prohibited.map(p => `- ${p}`).join('\n')}
                  <span className="flex-none w-6 h-6 rounded-full bg-zinc-800 text-zinc-300 flex items-center justify-center text-xs font-bold border border-zinc-700">2</span>
                  <div>
                    <p className="text-zinc-200 font-medium">Embed Metadata</p>
-                   <p className="text-xs mt-1">Copy Title, Description, and Keywords from the Metadata panel into your file's IPTC/XMP data using Adobe Bridge or similar tools.</p>
+                   <p className="text-xs mt-1">Export JPEG from the Metadata panel: Title, Description, Keywords, Author and the AI disclosure are embedded as IPTC and XMP, so no Adobe Bridge step is needed.</p>
                  </div>
                </div>
 
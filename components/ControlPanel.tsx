@@ -1,14 +1,32 @@
-import React from 'react';
-import { GenerationParams, AspectRatio, ImageQuality, StylePreset } from '../types';
+import React, { useMemo, useState } from 'react';
+import { GenerationParams, AspectRatio, ImageQuality, StylePreset, AutoFixSettings, EnhanceStrategy, CustomStylePreset } from '../types';
 import { Button } from './Button';
-import { ASPECT_RATIOS, QUALITIES, STYLES } from '../constants';
-import { Settings2, Wand2, Sparkles } from 'lucide-react';
+import { ReferenceImages } from './ReferenceImages';
+import { PromptLint } from './PromptLint';
+import { lintPrompt, applyLintSuggestions, hasLintErrors } from '../services/promptLintService';
+import { applyStylePreset } from '../services/stylePresetService';
+import { ASPECT_RATIOS, QUALITIES, STYLES, MICROSTOCK_NEGATIVE_PROMPT, ENHANCE_STRATEGIES } from '../constants';
+import { Settings2, Wand2, Sparkles, ListPlus, X } from 'lucide-react';
+
+const CUSTOM_STYLE_PREFIX = 'custom:';
 
 interface ControlPanelProps {
   params: GenerationParams;
   setParams: React.Dispatch<React.SetStateAction<GenerationParams>>;
   onGenerate: () => void;
+  onCancel: () => void;
+  onEnqueue: (count: number) => void;
+  onEnhance: (strategy: EnhanceStrategy) => void;
   isGenerating: boolean;
+  autoFix: AutoFixSettings;
+  setAutoFix: React.Dispatch<React.SetStateAction<AutoFixSettings>>;
+  statusMessage?: string | null;
+  candidateCount: number;
+  setCandidateCount: (count: number) => void;
+  blockOnLintErrors: boolean;
+  setBlockOnLintErrors: (block: boolean) => void;
+  stylePresets: CustomStylePreset[];
+  onManageStyles: () => void;
   hasApiKey: boolean;
   onSelectKey: () => void;
 }
@@ -17,7 +35,19 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   params,
   setParams,
   onGenerate,
+  onCancel,
+  onEnqueue,
+  onEnhance,
   isGenerating,
+  autoFix,
+  setAutoFix,
+  statusMessage,
+  candidateCount,
+  setCandidateCount,
+  blockOnLintErrors,
+  setBlockOnLintErrors,
+  stylePresets,
+  onManageStyles,
   hasApiKey,
   onSelectKey
 }) => {
@@ -25,6 +55,31 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
     setParams(prev => ({ ...prev, [key]: value }));
   };
 
+  const [queueCount, setQueueCount] = useState<number>(4);
+  const [enhanceStrategy, setEnhanceStrategy] = useState<EnhanceStrategy>(EnhanceStrategy.COMMERCIAL_LIFESTYLE);
+
+  const lintIssues = useMemo(() => lintPrompt(params.prompt), [params.prompt]);
+  const isBlocked = blockOnLintErrors && hasLintErrors(lintIssues);
+
+  // Custom presets are keyed by id so they cannot collide with built-in style names
+  const handleStyleChange = (value: string) => {
+    const preset = value.startsWith(CUSTOM_STYLE_PREFIX)
+      ? stylePresets.find(p => p.id === value.slice(CUSTOM_STYLE_PREFIX.length)) ?? null
+      : null;
+    setParams(prev => applyStylePreset(prev, preset, value as StylePreset));
+  };
+
+  // Turning Stock Mode on pre-fills the stock exclusions unless the user already wrote their own
+  const handleToggleMicrostock = () => {
+    setParams(prev => {
+      const optimizeForMicrostock = !prev.optimizeForMicrostock;
+      const negativePrompt = optimizeForMicrostock && !prev.negativePrompt?.trim()
+        ? MICROSTOCK_NEGATIVE_PROMPT
+        : prev.negativePrompt;
+      return { ...prev, optimizeForMicrostock, negativePrompt };
+    });
+  };
+
   return (
     <div className="flex flex-col h-full bg-zinc-900 border-r border-zinc-800 p-6 overflow-y-auto w-full lg:w-80 shrink-0">
       <div className="mb-8">
@@ -47,15 +102,69 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
       <div className="space-y-6 grow">
         {/* Prompt Input */}
         <div className="space-y-2">
-          <label className="text-sm font-medium text-zinc-300">Prompt</label>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-zinc-300">Prompt</label>
+            <div className="flex items-center gap-1">
+              <select
+                value={enhanceStrategy}
+                onChange={(e) => setEnhanceStrategy(e.target.value as EnhanceStrategy)}
+                className="bg-zinc-800 border border-zinc-700 rounded-md py-0.5 px-1 text-[10px] text-zinc-300 focus:ring-1 focus:ring-blue-500"
+                title="Enhancement strategy"
+              >
+                {ENHANCE_STRATEGIES.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+              <button
+                onClick={() => onEnhance(enhanceStrategy)}
+                disabled={!params.prompt.trim() || !hasApiKey}
+                className="flex items-center gap-1 text-[10px] text-blue-400 hover:text-blue-300 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Rewrite the prompt with the selected strategy"
+              >
+                <Wand2 size={12} /> Enhance
+              </button>
+            </div>
+          </div>
           <textarea
             value={params.prompt}
             onChange={(e) => handleChange('prompt', e.target.value)}
             placeholder="Describe your image in detail..."
-            className="w-full h-32 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            className={`w-full h-32 bg-zinc-800 border rounded-lg ${hasLintErrors(lintIssues) ? 'border-red-800' : 'border-zinc-700'} p-3 text-sm text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none`}
+          />
+          <PromptLint
+            issues={lintIssues}
+            blockOnErrors={blockOnLintErrors}
+            onToggleBlock={() => setBlockOnLintErrors(!blockOnLintErrors)}
+            onApply={(issue) => handleChange('prompt', applyLintSuggestions(params.prompt, [issue]))}
+            onApplyAll={() => handleChange('prompt', applyLintSuggestions(params.prompt, lintIssues))}
+          />
+        </div>
+
+        {/* Negative Prompt */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-zinc-300">Negative Prompt</label>
+            {params.optimizeForMicrostock && params.negativePrompt !== MICROSTOCK_NEGATIVE_PROMPT && (
+              <button
+                onClick={() => handleChange('negativePrompt', MICROSTOCK_NEGATIVE_PROMPT)}
+                className="text-[10px] text-blue-400 hover:text-blue-300"
+              >
+                Reset to stock defaults
+              </button>
+            )}
+          </div>
+          <textarea
+            value={params.negativePrompt || ''}
+            onChange={(e) => handleChange('negativePrompt', e.target.value)}
+            placeholder="Things to keep out of the image..."
+            className="w-full h-20 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-xs text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
           />
         </div>
 
+        {/* Reference Images */}
+        <ReferenceImages
+          references={params.referenceImages || []}
+          onChange={(refs) => handleChange('referenceImages', refs)}
+        />
+
         {/* Aspect Ratio */}
         <div className="space-y-2">
           <label className="text-sm font-medium text-zinc-300">Aspect Ratio</label>
@@ -78,16 +187,35 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
 
         {/* Style Preset */}
         <div className="space-y-2">
-          <label className="text-sm font-medium text-zinc-300">Style Preset</label>
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-zinc-300">Style Preset</label>
+            <button onClick={onManageStyles} className="text-[10px] text-blue-400 hover:text-blue-300">
+              Manage custom
+            </button>
+          </div>
           <select
-            value={params.style}
-            onChange={(e) => handleChange('style', e.target.value as StylePreset)}
+            value={params.customStyle ? `${CUSTOM_STYLE_PREFIX}${params.customStyle.id}` : params.style}
+            onChange={(e) => handleStyleChange(e.target.value)}
             className="w-full bg-zinc-800 border border-zinc-700 rounded-lg p-2 text-sm text-zinc-100 focus:ring-2 focus:ring-blue-500"
           >
-            {STYLES.map((style) => (
-              <option key={style} value={style}>{style}</option>
-            ))}
+            <optgroup label="Built-in">
+              {STYLES.map((style) => (
+                <option key={style} value={style}>{style}</option>
+              ))}
+            </optgroup>
+            {stylePresets.length > 0 && (
+              <optgroup label="Custom">
+                {stylePresets.map((preset) => (
+                  <option key={preset.id} value={`${CUSTOM_STYLE_PREFIX}${preset.id}`}>{preset.name}</option>
+                ))}
+              </optgroup>
+            )}
           </select>
+          {params.customStyle && (
+            <p className="text-[10px] text-zinc-500 line-clamp-2" title={params.customStyle.promptFragment}>
+              v{params.customStyle.version} · {params.customStyle.promptFragment}
+            </p>
+          )}
         </div>
 
         {/* Quality */}
@@ -110,6 +238,43 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           </div>
         </div>
 
+        {/* Seed */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-zinc-300">Seed</label>
+          <input
+            type="number"
+            min={0}
+            value={params.seed ?? ''}
+            onChange={(e) => handleChange('seed', e.target.value === '' ? undefined : Math.max(0, Math.floor(Number(e.target.value))))}
+            placeholder="Random"
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-lg p-2 text-sm text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-[10px] text-zinc-500">Leave blank for a new random seed each time. The seed used is saved with every image.</p>
+        </div>
+
+        {/* Candidates */}
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-zinc-300">Candidates per Prompt</label>
+          <div className="flex gap-2 p-1 bg-zinc-800 rounded-lg border border-zinc-700">
+            {[1, 2, 4, 6].map((n) => (
+              <button
+                key={n}
+                onClick={() => setCandidateCount(n)}
+                className={`flex-1 text-xs py-1.5 rounded-md transition-all ${
+                  candidateCount === n
+                    ? 'bg-zinc-600 text-white font-semibold shadow-sm'
+                    : 'text-zinc-400 hover:text-zinc-200'
+                }`}
+              >
+                {n}
+              </button>
+            ))}
+          </div>
+          {candidateCount > 1 && (
+            <p className="text-[10px] text-zinc-500">Variants are ranked by quality and metadata score. Auto-fix is skipped.</p>
+          )}
+        </div>
+
         {/* Microstock Switch */}
         <div className="flex items-center justify-between p-3 bg-zinc-800/50 border border-zinc-700/50 rounded-lg">
           <div className="flex flex-col">
@@ -117,7 +282,7 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             <span className="text-[10px] text-zinc-500">Safe, no brands, HQ</span>
           </div>
           <button
-            onClick={() => handleChange('optimizeForMicrostock', !params.optimizeForMicrostock)}
+            onClick={handleToggleMicrostock}
             className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-zinc-900 ${
               params.optimizeForMicrostock ? 'bg-blue-600' : 'bg-zinc-700'
             }`}
@@ -129,20 +294,87 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             />
           </button>
         </div>
+
+        {/* Auto-fix */}
+        <div className="p-3 bg-zinc-800/50 border border-zinc-700/50 rounded-lg space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex flex-col">
+              <span className="text-sm font-medium text-zinc-200">Auto-fix</span>
+              <span className="text-[10px] text-zinc-500">Regenerate until quality passes</span>
+            </div>
+            <button
+              onClick={() => setAutoFix(prev => ({ ...prev, enabled: !prev.enabled }))}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-zinc-900 ${
+                autoFix.enabled ? 'bg-purple-600' : 'bg-zinc-700'
+              }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  autoFix.enabled ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+          {autoFix.enabled && (
+            <div className="flex items-center justify-between text-xs text-zinc-400">
+              <span>Max attempts</span>
+              <select
+                value={autoFix.maxAttempts}
+                onChange={(e) => setAutoFix(prev => ({ ...prev, maxAttempts: Number(e.target.value) }))}
+                className="bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-zinc-200"
+              >
+                {[2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Action Button */}
       <div className="mt-8 pt-6 border-t border-zinc-800 sticky bottom-0 bg-zinc-900 pb-2">
-        <Button
-          onClick={onGenerate}
-          isLoading={isGenerating}
-          disabled={!params.prompt.trim() || !hasApiKey}
-          className="w-full"
-          size="lg"
-          icon={<Wand2 className="w-4 h-4" />}
-        >
-          Generate Image
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            onClick={onGenerate}
+            isLoading={isGenerating}
+            disabled={!params.prompt.trim() || !hasApiKey || isBlocked}
+            className="flex-1"
+            size="lg"
+            icon={<Wand2 className="w-4 h-4" />}
+          >
+            {candidateCount > 1 ? `Generate ${candidateCount} Candidates` : 'Generate Image'}
+          </Button>
+          {isGenerating && (
+            <Button variant="secondary" size="lg" onClick={onCancel} icon={<X className="w-4 h-4" />} title="Stop the running generation">
+              Cancel
+            </Button>
+          )}
+        </div>
+        {isBlocked && (
+          <p className="text-[10px] text-center text-red-400 mt-2">Resolve the blocking prompt flags to generate.</p>
+        )}
+        {statusMessage && (
+          <p className="text-[10px] text-center text-purple-300 mt-2">{statusMessage}</p>
+        )}
+        <div className="flex gap-2 mt-2">
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={queueCount}
+            onChange={(e) => setQueueCount(Math.max(1, Math.min(100, Number(e.target.value) || 1)))}
+            className="w-16 bg-zinc-800 border border-zinc-700 rounded-lg px-2 text-sm text-zinc-100 focus:ring-2 focus:ring-blue-500"
+            title="Number of jobs to add"
+          />
+          <Button
+            variant="secondary"
+            onClick={() => onEnqueue(queueCount)}
+            disabled={!params.prompt.trim() || !hasApiKey || isBlocked}
+            className="flex-1"
+            icon={<ListPlus className="w-4 h-4" />}
+          >
+            Add to Queue
+          </Button>
+        </div>
         <p className="text-[10px] text-center text-zinc-600 mt-3">
           Uses Google Gemini 3 Pro (Imagen)
         </p>
@@ -0,0 +1,61 @@
+import React from 'react';
+import { AIError } from '../services/errors';
+import { AlertCircle, KeyRound, Clock, ShieldAlert, FileWarning, WifiOff, Ban, X } from 'lucide-react';
+
+interface ErrorBannerProps {
+  error: AIError;
+  context: string;
+  onConnectKey: () => void;
+  onRetry?: () => void;
+  onDismiss: () => void;
+}
+
+const KIND_STYLES: Record<AIError['kind'], { icon: React.FC<{ className?: string }>; className: string }> = {
+  auth: { icon: KeyRound, className: 'bg-yellow-900/20 border-yellow-800 text-yellow-200' },
+  quota: { icon: Clock, className: 'bg-orange-900/20 border-orange-800 text-orange-200' },
+  safety: { icon: ShieldAlert, className: 'bg-purple-900/20 border-purple-800 text-purple-200' },
+  malformed: { icon: FileWarning, className: 'bg-red-900/20 border-red-800 text-red-200' },
+  network: { icon: WifiOff, className: 'bg-blue-900/20 border-blue-800 text-blue-200' },
+  cancelled: { icon: Ban, className: 'bg-zinc-900/60 border-zinc-700 text-zinc-300' },
+  unknown: { icon: AlertCircle, className: 'bg-red-900/20 border-red-800 text-red-200' }
+};
+
+export const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, context, onConnectKey, onRetry, onDismiss }) => {
+  const { icon: Icon, className } = KIND_STYLES[error.kind];
+
+  return (
+    <div className={`mb-6 p-4 border rounded-lg flex items-start gap-3 shrink-0 ${className}`}>
+      <Icon className="w-5 h-5 shrink-0 mt-0.5" />
+      <div className="flex-1 text-sm space-y-1">
+        <div className="font-semibold">{context}: {error.title}</div>
+        <div className="opacity-90">{error.hint}</div>
+        <div className="text-xs opacity-60 break-words">{error.message}</div>
+        <div className="flex gap-2 pt-1">
+          {error.kind === 'auth' && (
+            <button onClick={onConnectKey} className="text-xs px-2 py-1 rounded-md bg-zinc-900/60 border border-current hover:bg-zinc-900">
+              Connect API Key
+            </button>
+          )}
+          {error.kind === 'quota' && (
+            <a
+              href="https://ai.google.dev/gemini-api/docs/rate-limits"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs px-2 py-1 rounded-md bg-zinc-900/60 border border-current hover:bg-zinc-900"
+            >
+              View rate limits
+            </a>
+          )}
+          {onRetry && error.kind !== 'auth' && error.kind !== 'safety' && (
+            <button onClick={onRetry} className="text-xs px-2 py-1 rounded-md bg-zinc-900/60 border border-current hover:bg-zinc-900">
+              Try again
+            </button>
+          )}
+        </div>
+      </div>
+      <button onClick={onDismiss} className="opacity-60 hover:opacity-100" title="Dismiss">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
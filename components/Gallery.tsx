@@ -1,32 +1,87 @@
-import React from 'react';
-import { GeneratedImage } from '../types';
-import { Download, Trash2, Maximize2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { GeneratedImage, PlatformRules } from '../types';
+import { STOCK_PLATFORMS } from '../constants';
+import { getMegapixels, formatMegapixels, describeImageFile } from '../services/imageInfoService';
+import { Download, Trash2, Maximize2, ImagePlus, CheckSquare, Square, FileSpreadsheet } from 'lucide-react';
 
 interface GalleryProps {
   images: GeneratedImage[];
   onSelect: (image: GeneratedImage) => void;
   onDelete: (id: string) => void;
+  onUseAsReference: (image: GeneratedImage) => void;
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  onExportSelected: () => void;
 }
 
-export const Gallery: React.FC<GalleryProps> = ({ images, onSelect, onDelete }) => {
+// Images at or above this size are accepted by every supported platform
+const STRICTEST_MIN_MP = Math.max(...(Object.values(STOCK_PLATFORMS) as PlatformRules[]).map(p => p.minMP));
+
+export const Gallery: React.FC<GalleryProps> = ({ images, onSelect, onDelete, onUseAsReference, selectedIds, onSelectionChange, onExportSelected }) => {
+  // In selection mode a click toggles the image instead of opening it
+  const [isSelecting, setIsSelecting] = useState<boolean>(false);
+
   if (images.length === 0) return null;
 
+  const toggle = (id: string) => {
+    onSelectionChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    onSelectionChange([]);
+  };
+
   return (
     <div className="w-full bg-zinc-900/50 border-t border-zinc-800 p-6">
-      <h3 className="text-sm font-semibold text-zinc-400 mb-4">History</h3>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-zinc-400">History</h3>
+        {isSelecting ? (
+          <div className="flex items-center gap-3 text-xs">
+            <span className="text-zinc-400">{selectedIds.length} selected</span>
+            <button onClick={() => onSelectionChange(images.map(img => img.id))} className="text-zinc-400 hover:text-zinc-200">Select all</button>
+            <button
+              onClick={onExportSelected}
+              disabled={selectedIds.length === 0}
+              className="flex items-center gap-1 text-blue-400 hover:text-blue-300 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <FileSpreadsheet size={14} /> Export CSV
+            </button>
+            <button onClick={stopSelecting} className="text-zinc-500 hover:text-zinc-300">Done</button>
+          </div>
+        ) : (
+          <button onClick={() => setIsSelecting(true)} className="flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200">
+            <CheckSquare size={14} /> Select
+          </button>
+        )}
+      </div>
       <div className="flex gap-4 overflow-x-auto pb-4 snap-x">
         {images.map((img) => (
           <div 
             key={img.id} 
-            className="relative group shrink-0 w-48 aspect-square rounded-lg overflow-hidden border border-zinc-700 cursor-pointer snap-start bg-zinc-800"
-            onClick={() => onSelect(img)}
+            className={`relative group shrink-0 w-48 aspect-square rounded-lg overflow-hidden border cursor-pointer snap-start bg-zinc-800 ${
+              isSelecting && selectedIds.includes(img.id) ? 'border-blue-500 ring-2 ring-blue-500' : 'border-zinc-700'
+            }`}
+            onClick={() => isSelecting ? toggle(img.id) : onSelect(img)}
           >
             <img 
               src={img.url} 
               alt={img.params.prompt} 
               className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110" 
             />
-            <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+            {isSelecting && (
+              <span className="absolute top-2 right-2 z-10 text-white drop-shadow">
+                {selectedIds.includes(img.id) ? <CheckSquare size={18} className="text-blue-400" /> : <Square size={18} />}
+              </span>
+            )}
+            <div className={`absolute inset-0 bg-black/60 opacity-0 transition-opacity flex items-center justify-center gap-2 ${isSelecting ? 'hidden' : 'group-hover:opacity-100'}`}>
+              <button 
+                onClick={(e) => { e.stopPropagation(); onUseAsReference(img); }}
+                className="p-2 rounded-full bg-zinc-800 text-blue-400 hover:bg-blue-900/30 transition-colors"
+                title="Use as reference"
+              >
+                <ImagePlus size={16} />
+              </button>
               <button 
                 onClick={(e) => { e.stopPropagation(); onDelete(img.id); }}
                 className="p-2 rounded-full bg-zinc-800 text-red-400 hover:bg-red-900/30 transition-colors"
@@ -35,6 +90,35 @@ export const Gallery: React.FC<GalleryProps> = ({ images, onSelect, onDelete })
                 <Trash2 size={16} />
               </button>
             </div>
+            {img.qualityAssessment && (
+              <span
+                className={`absolute top-2 left-2 px-1.5 py-0.5 rounded text-[10px] font-semibold border ${
+                  img.qualityAssessment.microstock_pass
+                    ? 'bg-green-900/70 text-green-300 border-green-700'
+                    : 'bg-red-900/70 text-red-300 border-red-700'
+                }`}
+                title="Quality score"
+              >
+                {img.qualityAssessment.score}
+              </span>
+            )}
+            {img.autoFix && (
+              <span className="absolute top-2 right-2 px-1.5 py-0.5 rounded text-[10px] bg-purple-900/70 text-purple-200 border border-purple-700">
+                #{img.autoFix.attempt}
+              </span>
+            )}
+            {img.file && (
+              <span
+                className={`absolute bottom-2 left-2 px-1.5 py-0.5 rounded text-[10px] border group-hover:opacity-0 transition-opacity ${
+                  getMegapixels(img.file) >= STRICTEST_MIN_MP
+                    ? 'bg-zinc-900/70 text-zinc-300 border-zinc-700'
+                    : 'bg-yellow-900/70 text-yellow-200 border-yellow-700'
+                }`}
+                title={describeImageFile(img.file)}
+              >
+                {formatMegapixels(img.file)}{img.upscale && ' ↑'}
+              </span>
+            )}
             <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/90 to-transparent opacity-0 group-hover:opacity-100 pointer-events-none">
               <p className="text-[10px] text-zinc-300 truncate">{img.params.prompt}</p>
             </div>
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { GeneratedImage } from '../types';
+import { Button } from './Button';
+import { Fingerprint, Copy, Check, ChevronDown, ChevronRight, Repeat } from 'lucide-react';
+
+interface GenerationDetailsProps {
+  image: GeneratedImage;
+  isRerunning: boolean;
+  onRerun: () => void;
+  onCancelRerun: () => void;
+}
+
+export const GenerationDetails: React.FC<GenerationDetailsProps> = ({ image, isRerunning, onRerun, onCancelRerun }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [copied, setCopied] = useState<boolean>(false);
+  const provenance = image.provenance;
+
+  if (!provenance) return null;
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(provenance.effectivePrompt);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-zinc-900/50 border border-zinc-800 rounded-lg text-xs">
+      <div className="flex items-center justify-between px-3 py-2">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-1.5 text-zinc-400 hover:text-zinc-200"
+        >
+          {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <Fingerprint size={14} />
+          <span>{provenance.model}</span>
+          <span className="text-zinc-600">·</span>
+          <span>seed {provenance.seed ?? 'n/a'}</span>
+        </button>
+        <div className="flex items-center gap-2">
+          {isRerunning && (
+            <button onClick={onCancelRerun} className="text-xs text-zinc-500 hover:text-zinc-300">Cancel</button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRerun}
+            isLoading={isRerunning}
+            icon={<Repeat className="w-3 h-3" />}
+            title="Generate again with the same provider, model, prompt, seed and config"
+          >
+            Re-run exactly
+          </Button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3 border-t border-zinc-800 pt-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <span className="text-[10px] uppercase text-zinc-500 block">Provider</span>
+              <span className="text-zinc-300">{provenance.providerId}</span>
+            </div>
+            <div>
+              <span className="text-[10px] uppercase text-zinc-500 block">Seed</span>
+              <span className="text-zinc-300 font-mono">{provenance.seed ?? 'not supported'}</span>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] uppercase text-zinc-500">Effective Prompt</span>
+              <button onClick={handleCopy} className="text-zinc-500 hover:text-blue-400">
+                {copied ? <Check size={12} /> : <Copy size={12} />}
+              </button>
+            </div>
+            <p className="text-zinc-300 bg-zinc-950/50 p-2 rounded border border-zinc-800/50 whitespace-pre-wrap">
+              {provenance.effectivePrompt}
+            </p>
+          </div>
+          <div className="space-y-1">
+            <span className="text-[10px] uppercase text-zinc-500">Config</span>
+            <pre className="text-[10px] text-zinc-400 bg-zinc-950/50 p-2 rounded border border-zinc-800/50 overflow-x-auto">
+              {JSON.stringify(provenance.config, null, 2)}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
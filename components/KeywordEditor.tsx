@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Undo2, X } from 'lucide-react';
+
+interface KeywordEditorProps {
+  keywords: string[];
+  onChange: (keywords: string[]) => void;
+  isFlagged?: (keyword: string) => boolean;
+}
+
+const MAX_UNDO = 50;
+
+// Commas, semicolons, tabs and newlines all separate keywords in pasted lists
+const splitKeywords = (text: string): string[] =>
+  text.split(/[,;\t\r\n]+/).map(k => k.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+export const KeywordEditor: React.FC<KeywordEditorProps> = ({ keywords, onChange, isFlagged }) => {
+  const [draft, setDraft] = useState<string>('');
+  const [undoStack, setUndoStack] = useState<string[][]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const commit = (next: string[]) => {
+    setUndoStack(prev => [...prev.slice(-(MAX_UNDO - 1)), keywords]);
+    onChange(next);
+  };
+
+  const undo = () => {
+    if (undoStack.length === 0) return;
+    onChange(undoStack[undoStack.length - 1]);
+    setUndoStack(prev => prev.slice(0, -1));
+  };
+
+  // Skips case-insensitive duplicates of keywords already in the list
+  const addKeywords = (incoming: string[]) => {
+    const seen = new Set(keywords.map(k => k.toLowerCase()));
+    const added = incoming.filter(k => !seen.has(k.toLowerCase()) && seen.add(k.toLowerCase()));
+    if (added.length > 0) commit([...keywords, ...added]);
+  };
+
+  const removeAt = (index: number) => commit(keywords.filter((_, i) => i !== index));
+
+  const moveTo = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...keywords];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    commit(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addKeywords(splitKeywords(draft));
+      setDraft('');
+    } else if (e.key === 'Backspace' && !draft && keywords.length > 0) {
+      removeAt(keywords.length - 1);
+    } else if (e.key === 'z' && (e.metaKey || e.ctrlKey) && !draft) {
+      e.preventDefault();
+      undo();
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const pasted = splitKeywords(e.clipboardData.getData('text'));
+    if (pasted.length < 2) return; // a single term is typed into the input as usual
+    e.preventDefault();
+    addKeywords(pasted);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex flex-wrap gap-1.5 bg-zinc-950/50 p-3 rounded border border-zinc-800/50 max-h-48 overflow-y-auto custom-scrollbar">
+        {keywords.map((kw, i) => (
+          <span
+            key={`${kw}-${i}`}
+            draggable
+            onDragStart={() => setDragIndex(i)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => {
+              if (dragIndex !== null) moveTo(dragIndex, i);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            className={`flex items-center gap-1 pl-2 pr-1 py-1 rounded text-xs border cursor-grab ${
+              dragIndex === i ? 'opacity-40' : ''
+            } ${
+              isFlagged?.(kw)
+                ? 'bg-red-900/30 text-red-200 border-red-700/50'
+                : 'bg-zinc-800 text-zinc-300 border-zinc-700/50'
+            }`}
+          >
+            {kw}
+            <button onClick={() => removeAt(i)} className="text-zinc-500 hover:text-red-400" title={`Remove "${kw}"`}>
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          onBlur={() => {
+            addKeywords(splitKeywords(draft));
+            setDraft('');
+          }}
+          placeholder="Add keyword…"
+          className="flex-1 min-w-[8rem] bg-transparent text-xs text-zinc-100 placeholder-zinc-600 focus:outline-none"
+        />
+      </div>
+      <div className="flex items-center justify-between text-[10px] text-zinc-600">
+        <span>Enter or comma to add · paste a list to add many · drag to reorder</span>
+        <button
+          onClick={undo}
+          disabled={undoStack.length === 0}
+          className="flex items-center gap-1 text-zinc-400 hover:text-zinc-200 disabled:opacity-30"
+        >
+          <Undo2 size={10} /> Undo
+        </button>
+      </div>
+    </div>
+  );
+};
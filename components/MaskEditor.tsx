@@ -0,0 +1,177 @@
+import React, { useRef, useState } from 'react';
+import { Button } from './Button';
+import { Brush, Eraser, Trash2, Wand2, X } from 'lucide-react';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  isLoading: boolean;
+  onApply: (maskUrl: string, instruction: string) => void;
+  onCancel: () => void;
+}
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, isLoading, onApply, onCancel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [isErasing, setIsErasing] = useState<boolean>(false);
+  const [hasMask, setHasMask] = useState<boolean>(false);
+  const [instruction, setInstruction] = useState<string>('');
+
+  // Match the paint canvas to the image's natural resolution so the mask lines up pixel-for-pixel
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y, scale } = toCanvasPoint(e);
+    const from = lastPoint.current || { x, y };
+
+    ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = 'rgb(239, 68, 68)';
+    ctx.lineWidth = brushSize * scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+
+    lastPoint.current = { x, y };
+    if (!isErasing) setHasMask(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    paint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.buttons !== 1) return;
+    paint(e);
+  };
+
+  const handlePointerUp = () => {
+    lastPoint.current = null;
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  /**
+   * Converts the painted overlay into a black/white PNG mask (white = edit region).
+   */
+  const exportMask = (): string | null => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return null;
+
+    const painted = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const mask = new ImageData(canvas.width, canvas.height);
+    for (let i = 0; i < painted.data.length; i += 4) {
+      const value = painted.data[i + 3] > 0 ? 255 : 0;
+      mask.data[i] = value;
+      mask.data[i + 1] = value;
+      mask.data[i + 2] = value;
+      mask.data[i + 3] = 255;
+    }
+
+    const out = document.createElement('canvas');
+    out.width = canvas.width;
+    out.height = canvas.height;
+    out.getContext('2d')?.putImageData(mask, 0, 0);
+    return out.toDataURL('image/png');
+  };
+
+  const handleApply = () => {
+    const maskUrl = exportMask();
+    if (maskUrl) onApply(maskUrl, instruction.trim());
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="relative self-start max-w-full rounded-lg overflow-hidden border border-zinc-800 bg-zinc-900/50">
+        <img
+          src={imageUrl}
+          alt="Image being edited"
+          onLoad={handleImageLoad}
+          className="max-h-[60vh] lg:max-h-[70vh] object-contain select-none"
+          draggable={false}
+        />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+        <div className="flex gap-1 p-1 bg-zinc-900 border border-zinc-800 rounded-lg">
+          <button
+            onClick={() => setIsErasing(false)}
+            className={`flex items-center gap-1 px-2 py-1 rounded-md ${!isErasing ? 'bg-zinc-700 text-white' : 'hover:text-zinc-200'}`}
+          >
+            <Brush size={12} /> Paint
+          </button>
+          <button
+            onClick={() => setIsErasing(true)}
+            className={`flex items-center gap-1 px-2 py-1 rounded-md ${isErasing ? 'bg-zinc-700 text-white' : 'hover:text-zinc-200'}`}
+          >
+            <Eraser size={12} /> Erase
+          </button>
+        </div>
+        <label className="flex items-center gap-2">
+          Brush
+          <input
+            type="range"
+            min={5}
+            max={150}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+          />
+        </label>
+        <button onClick={handleClear} className="flex items-center gap-1 hover:text-red-400">
+          <Trash2 size={12} /> Clear mask
+        </button>
+      </div>
+
+      <textarea
+        value={instruction}
+        onChange={(e) => setInstruction(e.target.value)}
+        placeholder="Describe the fix, e.g. 'Replace the hand with a natural five-finger hand'"
+        className="w-full h-20 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+      />
+
+      <div className="flex gap-2">
+        <Button
+          onClick={handleApply}
+          isLoading={isLoading}
+          disabled={!hasMask || !instruction.trim()}
+          icon={<Wand2 className="w-4 h-4" />}
+        >
+          Apply Edit
+        </Button>
+        <Button onClick={onCancel} variant="ghost" icon={<X className="w-4 h-4" />}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
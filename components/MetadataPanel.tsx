@@ -1,25 +1,48 @@
 
 import React, { useState, useMemo } from 'react';
-import { ImageMetadata } from '../types';
+import { BrandSettings, ImageMetadata, MetadataLanguage, MetadataTranslation, StockPlatform } from '../types';
+import { CONTENT_TYPES, METADATA_LANGUAGES, PLATFORM_CATEGORIES } from '../constants';
 import { validateMetadata } from '../services/validatorService';
+import { getLocalizedFields, getTranslatedLanguages } from '../services/translationService';
+import { dropNearDuplicates } from '../services/keywordDedupeService';
+import { findCategory, getPlatformCategories } from '../services/categoryService';
 import { Button } from './Button';
-import { Copy, Check, Tag, FileText, User, Layers, Sparkles, ShieldCheck, AlertTriangle, AlertOctagon, Info, Zap } from 'lucide-react';
+import { KeywordEditor } from './KeywordEditor';
+import { Copy, Check, Tag, FileText, User, Layers, Sparkles, ShieldCheck, AlertTriangle, AlertOctagon, Info, Zap, X, FileDown, Languages } from 'lucide-react';
 
 interface MetadataPanelProps {
   metadata: ImageMetadata | undefined;
   isLoading: boolean;
   onGenerate: () => void;
+  onCancel: () => void;
+  onChange: (metadata: ImageMetadata) => void;
+  targetLanguages: MetadataLanguage[];
+  onTargetLanguagesChange: (languages: MetadataLanguage[]) => void;
+  isTranslating: boolean;
+  onTranslate: () => void;
+  jpegQuality: number;
+  onJpegQualityChange: (quality: number) => void;
+  authorName: string;
+  onAuthorNameChange: (name: string) => void;
+  isExporting: boolean;
+  onExportJpeg: (language?: MetadataLanguage) => void;
+  brandSettings: BrandSettings;
 }
 
-export const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, isLoading, onGenerate }) => {
+export const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, isLoading, onGenerate, onCancel, onChange, targetLanguages, onTargetLanguagesChange, isTranslating, onTranslate, jpegQuality, onJpegQualityChange, authorName, onAuthorNameChange, isExporting, onExportJpeg, brandSettings }) => {
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'all' | 'optimize'>('all');
+  const [language, setLanguage] = useState<MetadataLanguage | null>(null); // null = English
+  const [showLanguages, setShowLanguages] = useState<boolean>(false);
 
-  // Compute validation only when metadata changes
+  // A translation tab validates its own title, description and keywords
+  const fields = metadata ? getLocalizedFields(metadata, language ?? undefined) : null;
+
+  // Compute validation only when metadata changes; edits are saved as they are typed, so this runs live
   const validation = useMemo(() => {
-    if (!metadata) return null;
-    return validateMetadata(metadata);
-  }, [metadata]);
+    if (!metadata || !fields) return null;
+    return validateMetadata({ ...metadata, ...fields }, undefined, brandSettings);
+  }, [metadata, language, brandSettings]);
 
   const handleCopy = (text: string, field: string) => {
     navigator.clipboard.writeText(text);
@@ -29,6 +52,38 @@ export const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, isLoadin
 
   const formatKeywords = (keywords: string[]) => keywords.join(', ');
 
+  const edit = (changes: Partial<ImageMetadata>) => {
+    if (metadata) onChange({ ...metadata, ...changes });
+  };
+
+  // Title, description and keywords are written to the active language's translation
+  const editFields = (changes: Partial<MetadataTranslation>) => {
+    if (!metadata || !fields) return;
+    if (!language) edit(changes);
+    else edit({ translations: { ...metadata.translations, [language]: { ...fields, ...changes } } });
+  };
+
+  // Stores an override for one slot; clearing every slot leaves an empty override, not the suggestion
+  const setPlatformCategory = (platform: StockPlatform, slot: number, id: string) => {
+    if (!metadata) return;
+    const next = [...getPlatformCategories(metadata, platform)];
+    next[slot] = id;
+    const ids = Array.from(new Set(next.filter(Boolean)));
+    edit({ platformCategories: { ...metadata.platformCategories, [platform]: ids } });
+  };
+
+  const resetPlatformCategories = (platform: StockPlatform) => {
+    if (!metadata?.platformCategories) return;
+    const { [platform]: _, ...rest } = metadata.platformCategories;
+    edit({ platformCategories: rest });
+  };
+
+  const toggleTargetLanguage = (lang: MetadataLanguage) => {
+    onTargetLanguagesChange(targetLanguages.includes(lang)
+      ? targetLanguages.filter(l => l !== lang)
+      : [...targetLanguages, lang]);
+  };
+
   if (!metadata && !isLoading) {
     return (
       <div className="mt-6 p-6 bg-zinc-900/50 border border-zinc-800 rounded-xl text-center">
@@ -46,11 +101,16 @@ export const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, isLoadin
       <div className="mt-6 p-8 bg-zinc-900/50 border border-zinc-800 rounded-xl flex flex-col items-center justify-center gap-3 animate-pulse">
         <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
         <p className="text-zinc-400 text-sm">Analyzing image vision & semantics...</p>
+        <Button onClick={onCancel} variant="ghost" size="sm" icon={<X className="w-3 h-3" />}>
+          Cancel
+        </Button>
       </div>
     );
   }
 
-  if (!metadata || !validation) return null;
+  if (!metadata || !fields || !validation) return null;
+
+  const translated = getTranslatedLanguages(metadata);
 
   // Determine score color
   const scoreColor = 
@@ -114,20 +174,77 @@ export const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, isLoadin
 
         {activeTab === 'all' ? (
           <>
+            {/* Languages */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-1 flex-wrap">
+                {[null, ...translated].map(lang => (
+                  <button
+                    key={lang ?? 'en'}
+                    onClick={() => setLanguage(lang)}
+                    title={lang ? METADATA_LANGUAGES[lang] : 'English'}
+                    className={`px-2 py-1 text-[10px] uppercase tracking-wider rounded transition-colors ${
+                      language === lang ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-300'
+                    }`}
+                  >
+                    {lang ?? 'en'}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setShowLanguages(prev => !prev)}
+                  className="ml-auto flex items-center gap-1 text-xs text-zinc-400 hover:text-zinc-200"
+                >
+                  <Languages size={12} /> Translate
+                </button>
+              </div>
+              {showLanguages && (
+                <div className="p-3 bg-zinc-950/50 rounded border border-zinc-800/50 space-y-3">
+                  <div className="grid grid-cols-2 gap-1">
+                    {(Object.keys(METADATA_LANGUAGES) as MetadataLanguage[]).map(lang => (
+                      <label key={lang} className="flex items-center gap-2 text-xs text-zinc-300">
+                        <input
+                          type="checkbox"
+                          checked={targetLanguages.includes(lang)}
+                          onChange={() => toggleTargetLanguage(lang)}
+                          className="accent-blue-500"
+                        />
+                        {METADATA_LANGUAGES[lang]}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-zinc-600">Translates the English title, description and keywords. Existing translations are replaced.</span>
+                    <Button
+                      onClick={onTranslate}
+                      size="sm"
+                      variant="secondary"
+                      isLoading={isTranslating}
+                      disabled={targetLanguages.length === 0}
+                    >
+                      Translate
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+
             {/* Title */}
             <div className="space-y-1.5 group">
               <div className="flex items-center justify-between">
                 <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Title</label>
                 <button 
-                  onClick={() => handleCopy(metadata.title, 'title')}
+                  onClick={() => handleCopy(fields.title, 'title')}
                   className="text-zinc-500 hover:text-blue-400 transition-colors opacity-0 group-hover:opacity-100"
                 >
                   {copiedField === 'title' ? <Check size={14} /> : <Copy size={14} />}
                 </button>
               </div>
-              <p className="text-sm text-zinc-100 bg-zinc-950/50 p-2 rounded border border-zinc-800/50 font-medium leading-snug">
-                {metadata.title}
-              </p>
+              <textarea
+                value={fields.title}
+                onChange={(e) => editFields({ title: e.target.value.replace(/\n/g, ' ') })}
+                rows={2}
+                className="w-full text-sm text-zinc-100 bg-zinc-950/50 p-2 rounded border border-zinc-800/50 font-medium leading-snug resize-none focus:outline-none focus:border-blue-500"
+              />
+              <p className="text-[10px] text-zinc-600 text-right">{fields.title.length} chars</p>
             </div>
 
             {/* Description */}
@@ -135,50 +252,65 @@ export const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, isLoadin
               <div className="flex items-center justify-between">
                 <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">Description</label>
                 <button 
-                  onClick={() => handleCopy(metadata.description, 'desc')}
+                  onClick={() => handleCopy(fields.description, 'desc')}
                   className="text-zinc-500 hover:text-blue-400 transition-colors opacity-0 group-hover:opacity-100"
                 >
                   {copiedField === 'desc' ? <Check size={14} /> : <Copy size={14} />}
                 </button>
               </div>
-              <p className="text-sm text-zinc-300 bg-zinc-950/50 p-2 rounded border border-zinc-800/50 leading-relaxed">
-                {metadata.description}
-              </p>
+              <textarea
+                value={fields.description}
+                onChange={(e) => editFields({ description: e.target.value })}
+                rows={4}
+                className="w-full text-sm text-zinc-300 bg-zinc-950/50 p-2 rounded border border-zinc-800/50 leading-relaxed resize-y focus:outline-none focus:border-blue-500"
+              />
             </div>
 
             {/* Keywords */}
             <div className="space-y-2 group">
               <div className="flex items-center justify-between">
                 <label className="text-xs font-medium text-zinc-400 uppercase tracking-wider">
-                  Keywords ({metadata.keywords.length})
+                  Keywords ({fields.keywords.length})
                 </label>
                 <button 
-                  onClick={() => handleCopy(formatKeywords(metadata.keywords), 'keywords')}
+                  onClick={() => handleCopy(formatKeywords(fields.keywords), 'keywords')}
                   className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 bg-blue-900/20 px-2 py-1 rounded transition-colors"
                 >
                   {copiedField === 'keywords' ? <Check size={12} /> : <Copy size={12} />}
                   <span>Copy CSV</span>
                 </button>
               </div>
-              <div className="flex flex-wrap gap-1.5 bg-zinc-950/50 p-3 rounded border border-zinc-800/50 max-h-48 overflow-y-auto custom-scrollbar">
-                {metadata.keywords.map((kw, i) => {
-                  const isWarning = validation.issues.some(
-                    iss => iss.field === 'keywords' && (iss.message.toLowerCase().includes(kw.toLowerCase()))
-                  );
-                  return (
-                    <span 
-                      key={i} 
-                      className={`px-2 py-1 rounded text-xs border ${
-                        isWarning 
-                          ? 'bg-red-900/30 text-red-200 border-red-700/50' 
-                          : 'bg-zinc-800 text-zinc-300 border-zinc-700/50'
-                      }`}
+              <KeywordEditor
+                key={language ?? 'en'}
+                keywords={fields.keywords}
+                onChange={(keywords) => editFields({ keywords })}
+                isFlagged={(kw) => validation.issues.some(iss => iss.field === 'keywords' && (
+                  iss.keywords ? iss.keywords.includes(kw)
+                  : iss.message.toLowerCase().includes(kw.toLowerCase())
+                ))}
+              />
+              {validation.keywordGroups.length > 0 && (
+                <div className="bg-zinc-950/50 p-3 rounded border border-zinc-800/50 space-y-1.5">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-zinc-500 uppercase tracking-wider">Near-duplicates</span>
+                    <button
+                      onClick={() => editFields({ keywords: dropNearDuplicates(fields.keywords) })}
+                      className="text-[10px] text-blue-400 hover:text-blue-300"
+                      title="Keeps the first keyword of each group"
                     >
-                      {kw}
-                    </span>
-                  );
-                })}
-              </div>
+                      Drop {validation.keywordGroups.reduce((sum, group) => sum + group.drop.length, 0)} suggested
+                    </button>
+                  </div>
+                  {validation.keywordGroups.map(group => (
+                    <div key={group.stem} className="flex flex-wrap items-center gap-1 text-xs">
+                      <span className="text-zinc-200">{group.keep}</span>
+                      {group.drop.map((kw, i) => (
+                        <span key={i} className="text-red-400/80 line-through">{kw}</span>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
             
             {/* Details Grid */}
@@ -187,18 +319,112 @@ export const MetadataPanel: React.FC<MetadataPanelProps> = ({ metadata, isLoadin
                <div className="space-y-1">
                 <label className="text-[10px] text-zinc-500 uppercase">Content Type</label>
                 <div className="flex items-center gap-2 text-sm text-zinc-300">
-                  <Layers size={14} className="text-purple-400" />
-                  {metadata.contentType}
+                  <Layers size={14} className="text-purple-400 shrink-0" />
+                  <select
+                    value={metadata.contentType}
+                    onChange={(e) => edit({ contentType: e.target.value as ImageMetadata['contentType'] })}
+                    className="w-full bg-zinc-950/50 border border-zinc-800/50 rounded px-1 py-0.5 text-sm text-zinc-300 focus:outline-none focus:border-blue-500"
+                  >
+                    {CONTENT_TYPES.map(type => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
                 </div>
               </div>
               <div className="space-y-1">
                 <label className="text-[10px] text-zinc-500 uppercase">Category</label>
                 <div className="flex items-center gap-2 text-sm text-zinc-300">
-                  <FileText size={14} className="text-green-400" />
-                  {metadata.category}
+                  <FileText size={14} className="text-green-400 shrink-0" />
+                  <input
+                    type="text"
+                    value={metadata.category}
+                    onChange={(e) => edit({ category: e.target.value })}
+                    className="w-full bg-zinc-950/50 border border-zinc-800/50 rounded px-1 py-0.5 text-sm text-zinc-300 focus:outline-none focus:border-blue-500"
+                  />
                 </div>
               </div>
             </div>
+
+            {/* Platform Categories */}
+            <div className="space-y-2 pt-2 border-t border-zinc-800/50">
+              <label className="text-[10px] text-zinc-500 uppercase">Platform Categories</label>
+              {(Object.keys(PLATFORM_CATEGORIES) as StockPlatform[]).map(platform => {
+                const taxonomy = PLATFORM_CATEGORIES[platform]!;
+                const ids = getPlatformCategories(metadata, platform);
+                const isOverride = !!metadata.platformCategories?.[platform];
+                return (
+                  <div key={platform} className="flex items-center gap-2">
+                    <span className="w-24 shrink-0 text-xs text-zinc-400">{platform}</span>
+                    {Array.from({ length: taxonomy.maxCategories }, (_, slot) => (
+                      <select
+                        key={slot}
+                        value={ids[slot] ?? ''}
+                        onChange={(e) => setPlatformCategory(platform, slot, e.target.value)}
+                        className={`flex-1 min-w-0 bg-zinc-950/50 border rounded px-1 py-0.5 text-xs focus:outline-none focus:border-blue-500 ${
+                          ids[slot] && !findCategory(platform, ids[slot]) ? 'border-red-700/50 text-red-300' : 'border-zinc-800/50 text-zinc-300'
+                        }`}
+                      >
+                        <option value="">{slot === 0 ? 'None' : 'No second category'}</option>
+                        {ids[slot] && !findCategory(platform, ids[slot]) && (
+                          <option value={ids[slot]}>{ids[slot]} (not a {platform} category)</option>
+                        )}
+                        {taxonomy.categories.map(category => (
+                          <option key={category.id} value={category.id}>
+                            {category.id === category.label ? category.label : `${category.id} · ${category.label}`}
+                          </option>
+                        ))}
+                      </select>
+                    ))}
+                    {isOverride ? (
+                      <button
+                        onClick={() => resetPlatformCategories(platform)}
+                        className="text-[10px] text-zinc-500 hover:text-zinc-300"
+                        title="Go back to the category mapped from the metadata"
+                      >
+                        Reset
+                      </button>
+                    ) : (
+                      <span className="text-[10px] text-zinc-600" title="Mapped from the category, title and keywords">auto</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Export */}
+            <label className="flex items-center gap-2 pt-3 border-t border-zinc-800/50 text-[10px] text-zinc-500 uppercase">
+              Author
+              <input
+                type="text"
+                value={authorName}
+                onChange={(e) => onAuthorNameChange(e.target.value)}
+                placeholder="Your name, embedded as the JPEG creator"
+                className="flex-1 bg-zinc-950/50 border border-zinc-800/50 rounded px-2 py-1 text-xs normal-case text-zinc-300 placeholder-zinc-600 focus:outline-none focus:border-blue-500"
+              />
+            </label>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-[10px] text-zinc-500 uppercase flex-1">
+                JPEG Quality
+                <input
+                  type="range"
+                  min={60}
+                  max={100}
+                  value={jpegQuality}
+                  onChange={(e) => onJpegQualityChange(Number(e.target.value))}
+                  className="flex-1 accent-blue-500"
+                />
+                <span className="text-zinc-300 w-6 text-right">{jpegQuality}</span>
+              </label>
+              <Button
+                onClick={() => onExportJpeg(language ?? undefined)}
+                size="sm"
+                isLoading={isExporting}
+                icon={<FileDown className="w-3 h-3" />}
+                title="4:4:4 JPEG with title, description, keywords, author and AI disclosure in IPTC and XMP"
+              >
+                Export JPEG
+              </Button>
+            </div>
           </>
         ) : (
           /* KEYWORD OPTIMIZER TAB */
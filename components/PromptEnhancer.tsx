@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { EnhanceStrategy } from '../types';
+import { ENHANCE_STRATEGIES } from '../constants';
+import { lintPrompt } from '../services/promptLintService';
+import { Button } from './Button';
+import { Sparkles, XCircle, Check, X, RefreshCw, AlertTriangle } from 'lucide-react';
+
+interface PromptEnhancerProps {
+  original: string;
+  enhanced: string;
+  strategy: EnhanceStrategy;
+  isLoading: boolean;
+  onRewrite: (strategy: EnhanceStrategy) => void;
+  onAccept: (prompt: string) => void;
+  onReject: () => void;
+}
+
+export const PromptEnhancer: React.FC<PromptEnhancerProps> = ({ original, enhanced, strategy, isLoading, onRewrite, onAccept, onReject }) => {
+  // The rewrite stays editable; a new rewrite replaces any manual edits
+  const [draft, setDraft] = useState<string>(enhanced);
+  useEffect(() => setDraft(enhanced), [enhanced]);
+
+  const flags = lintPrompt(draft);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-zinc-900 rounded-t-xl">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Sparkles className="text-blue-400" />
+              Enhance Prompt
+            </h2>
+            <p className="text-sm text-zinc-400">Review the rewrite before it replaces your prompt.</p>
+          </div>
+          <button onClick={onReject} className="text-zinc-500 hover:text-white transition-colors">
+            <XCircle size={24} />
+          </button>
+        </div>
+
+        {/* Strategy */}
+        <div className="flex items-center gap-2 px-6 py-3 border-b border-zinc-800 bg-zinc-950/50 flex-wrap">
+          <span className="text-xs text-zinc-500 mr-1">Strategy</span>
+          {ENHANCE_STRATEGIES.map(s => (
+            <button
+              key={s}
+              onClick={() => onRewrite(s)}
+              disabled={isLoading}
+              className={`text-xs py-1.5 px-3 rounded-md border transition-all disabled:opacity-50 ${
+                strategy === s
+                  ? 'bg-blue-600/20 border-blue-500 text-blue-200'
+                  : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:text-zinc-200'
+              }`}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+
+        {/* Side by side */}
+        <div className="flex-1 overflow-y-auto p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <span className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Original</span>
+            <p className="h-64 overflow-y-auto text-sm text-zinc-400 bg-zinc-950/50 p-3 rounded-lg border border-zinc-800 whitespace-pre-wrap">
+              {original}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Enhanced</span>
+              {!isLoading && flags.length > 0 && (
+                <span className="flex items-center gap-1 text-[10px] text-yellow-400">
+                  <AlertTriangle size={12} /> {flags.length} compliance flag{flags.length === 1 ? '' : 's'}
+                </span>
+              )}
+            </div>
+            {isLoading ? (
+              <div className="h-64 flex flex-col items-center justify-center gap-3 bg-zinc-950/50 rounded-lg border border-zinc-800 animate-pulse">
+                <div className="w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                <p className="text-zinc-400 text-sm">Rewriting for {strategy.toLowerCase()}...</p>
+              </div>
+            ) : (
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="w-full h-64 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between px-6 py-4 border-t border-zinc-800">
+          <Button variant="ghost" size="sm" onClick={() => onRewrite(strategy)} disabled={isLoading} icon={<RefreshCw className="w-3 h-3" />}>
+            Rewrite again
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={onReject} icon={<X className="w-4 h-4" />}>
+              {isLoading ? 'Cancel' : 'Keep original'}
+            </Button>
+            <Button onClick={() => onAccept(draft.trim())} disabled={isLoading || !draft.trim()} icon={<Check className="w-4 h-4" />}>
+              Use enhanced prompt
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
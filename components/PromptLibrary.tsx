@@ -1,10 +1,11 @@
 import React from 'react';
 import { EXAMPLES } from '../constants';
 import { PromptExample } from '../types';
-import { Coffee, Briefcase, Cpu, Box, Layers } from 'lucide-react';
+import { Coffee, Briefcase, Cpu, Box, Layers, Braces } from 'lucide-react';
 
 interface PromptLibraryProps {
   onSelect: (prompt: string) => void;
+  onOpenTemplates: () => void;
 }
 
 // Mapping string icon names to components for rendering
@@ -16,9 +17,9 @@ const IconMap: Record<string, React.FC<{ className?: string }>> = {
   Layers
 };
 
-export const PromptLibrary: React.FC<PromptLibraryProps> = ({ onSelect }) => {
+export const PromptLibrary: React.FC<PromptLibraryProps> = ({ onSelect, onOpenTemplates }) => {
   return (
-    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3 mt-6">
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 mt-6">
       {EXAMPLES.map((ex) => {
         const Icon = IconMap[ex.icon] || Box;
         return (
@@ -32,6 +33,13 @@ export const PromptLibrary: React.FC<PromptLibraryProps> = ({ onSelect }) => {
           </button>
         );
       })}
+      <button
+        onClick={onOpenTemplates}
+        className="flex flex-col items-center justify-center p-4 rounded-xl bg-zinc-800/50 border border-dashed border-zinc-700 hover:bg-zinc-800 hover:border-blue-500/50 hover:text-blue-400 transition-all group text-center h-24"
+      >
+        <Braces className="mb-2 w-5 h-5 text-zinc-500 group-hover:text-blue-400 transition-colors" />
+        <span className="text-xs font-medium text-zinc-300 group-hover:text-white">Template Series</span>
+      </button>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,85 @@
+import React from 'react';
+import { PromptLintIssue, PromptLintCategory } from '../types';
+import { AlertOctagon, AlertTriangle, ShieldCheck, Wand } from 'lucide-react';
+
+interface PromptLintProps {
+  issues: PromptLintIssue[];
+  blockOnErrors: boolean;
+  onToggleBlock: () => void;
+  onApply: (issue: PromptLintIssue) => void;
+  onApplyAll: () => void;
+}
+
+const CATEGORY_LABELS: Record<PromptLintCategory, string> = {
+  brand: 'Brand',
+  character: 'Character',
+  public_figure: 'Public figure',
+  landmark: 'Landmark',
+  text: 'Text in image'
+};
+
+export const PromptLint: React.FC<PromptLintProps> = ({ issues, blockOnErrors, onToggleBlock, onApply, onApplyAll }) => {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px]">
+        {issues.length === 0 ? (
+          <span className="flex items-center gap-1 text-green-500">
+            <ShieldCheck size={12} /> No compliance flags
+          </span>
+        ) : (
+          <span className={errorCount > 0 ? 'text-red-400' : 'text-yellow-400'}>
+            {issues.length} flag{issues.length === 1 ? '' : 's'}{errorCount > 0 && ` · ${errorCount} blocking`}
+          </span>
+        )}
+        <label className="flex items-center gap-1.5 text-zinc-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={blockOnErrors}
+            onChange={onToggleBlock}
+            className="rounded border-zinc-700 bg-zinc-800"
+          />
+          Block on errors
+        </label>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="space-y-1.5">
+          {issues.map((issue, idx) => (
+            <li
+              key={`${issue.start}-${idx}`}
+              className={`p-2 rounded-md border text-[11px] ${
+                issue.severity === 'error'
+                  ? 'bg-red-900/10 border-red-900/40 text-red-200'
+                  : 'bg-yellow-900/10 border-yellow-900/40 text-yellow-200'
+              }`}
+            >
+              <div className="flex items-start gap-1.5">
+                {issue.severity === 'error'
+                  ? <AlertOctagon size={12} className="shrink-0 mt-0.5" />
+                  : <AlertTriangle size={12} className="shrink-0 mt-0.5" />}
+                <div className="flex-1">
+                  <span className="uppercase text-[9px] opacity-60 mr-1">{CATEGORY_LABELS[issue.category]}</span>
+                  {issue.message}
+                </div>
+              </div>
+              <button
+                onClick={() => onApply(issue)}
+                className="mt-1 ml-4 text-[10px] text-blue-400 hover:text-blue-300"
+              >
+                {issue.suggestion ? `Replace with "${issue.suggestion}"` : 'Remove'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {issues.length > 1 && (
+        <button onClick={onApplyAll} className="flex items-center gap-1 text-[10px] text-blue-400 hover:text-blue-300">
+          <Wand size={12} /> Apply all neutral rewrites
+        </button>
+      )}
+    </div>
+  );
+};
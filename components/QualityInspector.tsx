@@ -2,15 +2,17 @@
 import React from 'react';
 import { QualityAssessment } from '../types';
 import { Button } from './Button';
-import { Microscope, CheckCircle2, XCircle, AlertTriangle, Activity, Eye } from 'lucide-react';
+import { Microscope, CheckCircle2, XCircle, AlertTriangle, Activity, Eye, PenTool, X } from 'lucide-react';
 
 interface QualityInspectorProps {
   assessment: QualityAssessment | undefined;
   isLoading: boolean;
   onAnalyze: () => void;
+  onEdit: () => void;
+  onCancel: () => void;
 }
 
-export const QualityInspector: React.FC<QualityInspectorProps> = ({ assessment, isLoading, onAnalyze }) => {
+export const QualityInspector: React.FC<QualityInspectorProps> = ({ assessment, isLoading, onAnalyze, onEdit, onCancel }) => {
   
   if (!assessment && !isLoading) {
     return (
@@ -39,6 +41,9 @@ export const QualityInspector: React.FC<QualityInspectorProps> = ({ assessment,
           </div>
         </div>
         <p className="text-zinc-400 text-sm font-medium">Scanning pixels for defects...</p>
+        <Button onClick={onCancel} variant="ghost" size="sm" icon={<X className="w-3 h-3" />}>
+          Cancel
+        </Button>
       </div>
     );
   }
@@ -126,8 +131,13 @@ export const QualityInspector: React.FC<QualityInspectorProps> = ({ assessment,
         </div>
         
         {!isPass && (
-           <div className="text-[11px] text-zinc-500 text-center pt-2">
-             Recommendation: Regenerate using the same prompt or refine the prompt to fix anatomy.
+           <div className="flex flex-col items-center gap-2 pt-2">
+             <div className="text-[11px] text-zinc-500 text-center">
+               Recommendation: Paint over the defect and fix it in edit mode, or regenerate with a refined prompt.
+             </div>
+             <Button onClick={onEdit} variant="secondary" size="sm" icon={<PenTool className="w-3 h-3" />}>
+               Fix with Mask Edit
+             </Button>
            </div>
         )}
       </div>
@@ -0,0 +1,134 @@
+import React from 'react';
+import { QueueJob, JobStatus } from '../types';
+import { ListOrdered, Pause, Play, X, RotateCcw, Loader2, CheckCircle2, XCircle, Clock, Ban } from 'lucide-react';
+
+interface QueuePanelProps {
+  jobs: QueueJob[];
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onPauseAll: () => void;
+  onResumeAll: () => void;
+  onClearFinished: () => void;
+  onSelectImage: (imageId: string) => void;
+}
+
+const STATUS_STYLES: Record<JobStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-zinc-800 text-zinc-400 border-zinc-700' },
+  paused: { label: 'Paused', className: 'bg-yellow-900/20 text-yellow-400 border-yellow-800' },
+  running: { label: 'Running', className: 'bg-blue-900/20 text-blue-400 border-blue-800' },
+  done: { label: 'Done', className: 'bg-green-900/20 text-green-400 border-green-800' },
+  failed: { label: 'Failed', className: 'bg-red-900/20 text-red-400 border-red-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-zinc-800 text-zinc-500 border-zinc-700' }
+};
+
+const StatusIcon: React.FC<{ status: JobStatus }> = ({ status }) => {
+  switch (status) {
+    case 'running': return <Loader2 size={12} className="animate-spin" />;
+    case 'done': return <CheckCircle2 size={12} />;
+    case 'failed': return <XCircle size={12} />;
+    case 'paused': return <Pause size={12} />;
+    case 'cancelled': return <Ban size={12} />;
+    default: return <Clock size={12} />;
+  }
+};
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({
+  jobs,
+  concurrency,
+  onConcurrencyChange,
+  onPause,
+  onResume,
+  onCancel,
+  onRetry,
+  onPauseAll,
+  onResumeAll,
+  onClearFinished,
+  onSelectImage
+}) => {
+  if (jobs.length === 0) return null;
+
+  const count = (status: JobStatus) => jobs.filter(job => job.status === status).length;
+
+  return (
+    <div className="w-full bg-zinc-900/50 border-t border-zinc-800 px-6 py-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-zinc-400 flex items-center gap-2">
+          <ListOrdered size={16} />
+          Queue
+          <span className="text-[10px] font-normal text-zinc-500">
+            {count('running')} running · {count('queued')} queued · {count('done')} done · {count('failed')} failed
+          </span>
+        </h3>
+        <div className="flex items-center gap-2 text-xs">
+          <label className="text-zinc-500">Concurrency</label>
+          <select
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+            className="bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-zinc-200"
+          >
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          <button onClick={onPauseAll} className="px-2 py-1 rounded-md bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white">
+            Pause all
+          </button>
+          <button onClick={onResumeAll} className="px-2 py-1 rounded-md bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white">
+            Resume all
+          </button>
+          <button onClick={onClearFinished} className="px-2 py-1 rounded-md bg-zinc-800 border border-zinc-700 text-zinc-400 hover:text-white">
+            Clear finished
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-1.5 max-h-40 overflow-y-auto pr-1">
+        {jobs.map(job => {
+          const style = STATUS_STYLES[job.status];
+          return (
+            <li key={job.id} className="flex items-center gap-3 text-xs bg-zinc-800/40 border border-zinc-800 rounded-md px-3 py-2">
+              <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full border shrink-0 ${style.className}`}>
+                <StatusIcon status={job.status} />
+                {style.label}
+              </span>
+              <button
+                onClick={() => job.imageId && onSelectImage(job.imageId)}
+                disabled={!job.imageId}
+                className="flex-1 truncate text-left text-zinc-300 enabled:hover:text-white disabled:cursor-default"
+                title={job.error || job.params.prompt}
+              >
+                {job.params.prompt}
+              </button>
+              <span className="text-zinc-600 shrink-0">{job.params.quality} · {job.params.aspectRatio}</span>
+              {job.error && <span className="text-red-400 truncate max-w-[12rem] shrink-0">{job.error}</span>}
+              <div className="flex gap-1 shrink-0">
+                {job.status === 'queued' && (
+                  <button onClick={() => onPause(job.id)} className="p-1 text-zinc-500 hover:text-yellow-400" title="Pause">
+                    <Pause size={14} />
+                  </button>
+                )}
+                {job.status === 'paused' && (
+                  <button onClick={() => onResume(job.id)} className="p-1 text-zinc-500 hover:text-blue-400" title="Resume">
+                    <Play size={14} />
+                  </button>
+                )}
+                {(job.status === 'failed' || job.status === 'cancelled') && (
+                  <button onClick={() => onRetry(job.id)} className="p-1 text-zinc-500 hover:text-blue-400" title="Retry">
+                    <RotateCcw size={14} />
+                  </button>
+                )}
+                {(job.status === 'queued' || job.status === 'paused' || job.status === 'running') && (
+                  <button onClick={() => onCancel(job.id)} className="p-1 text-zinc-500 hover:text-red-400" title="Cancel">
+                    <X size={14} />
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
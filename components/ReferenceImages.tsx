@@ -0,0 +1,95 @@
+import React, { useRef } from 'react';
+import { ReferenceImage, ReferenceRole } from '../types';
+import { REFERENCE_ROLES, MAX_REFERENCE_IMAGES } from '../constants';
+import { ImagePlus, X } from 'lucide-react';
+
+interface ReferenceImagesProps {
+  references: ReferenceImage[];
+  onChange: (references: ReferenceImage[]) => void;
+}
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export const ReferenceImages: React.FC<ReferenceImagesProps> = ({ references, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const remaining = MAX_REFERENCE_IMAGES - references.length;
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const images = Array.from(files).filter(f => f.type.startsWith('image/')).slice(0, remaining);
+    const added: ReferenceImage[] = await Promise.all(images.map(async file => ({
+      id: crypto.randomUUID(),
+      url: await readFileAsDataUrl(file),
+      mimeType: file.type,
+      role: ReferenceRole.STYLE
+    })));
+    onChange([...references, ...added]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const updateRole = (id: string, role: ReferenceRole) => {
+    onChange(references.map(ref => ref.id === id ? { ...ref, role } : ref));
+  };
+
+  const remove = (id: string) => {
+    onChange(references.filter(ref => ref.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-zinc-300">Reference Images</label>
+        <span className="text-[10px] text-zinc-500">{references.length}/{MAX_REFERENCE_IMAGES}</span>
+      </div>
+
+      {references.length > 0 && (
+        <div className="space-y-2">
+          {references.map(ref => (
+            <div key={ref.id} className="flex items-center gap-2 p-1.5 bg-zinc-800/50 border border-zinc-700/50 rounded-lg">
+              <img src={ref.url} alt={`${ref.role} reference`} className="w-10 h-10 object-cover rounded" />
+              <select
+                value={ref.role}
+                onChange={(e) => updateRole(ref.id, e.target.value as ReferenceRole)}
+                className="flex-1 bg-zinc-800 border border-zinc-700 rounded-md p-1 text-xs text-zinc-100"
+              >
+                {REFERENCE_ROLES.map(role => (
+                  <option key={role} value={role}>{role}</option>
+                ))}
+              </select>
+              <button onClick={() => remove(ref.id)} className="p-1 text-zinc-500 hover:text-red-400" title="Remove reference">
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {remaining > 0 && (
+        <>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full flex items-center justify-center gap-2 py-2 text-xs text-zinc-400 border border-dashed border-zinc-700 rounded-lg hover:text-zinc-200 hover:border-zinc-500 transition-colors"
+          >
+            <ImagePlus size={14} />
+            Upload reference
+          </button>
+          <p className="text-[10px] text-zinc-500">Or pick one from the History gallery.</p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useRef, useState } from 'react';
+import { AspectRatio, CustomStylePreset } from '../types';
+import { ASPECT_RATIOS } from '../constants';
+import {
+  createStylePreset,
+  updateStylePreset,
+  duplicateStylePreset,
+  exportStylePresets,
+  importStylePresets
+} from '../services/stylePresetService';
+import { Button } from './Button';
+import { Palette, XCircle, Plus, Save, Trash2, Copy, Upload, Download } from 'lucide-react';
+
+interface StylePresetManagerProps {
+  presets: CustomStylePreset[];
+  initialPresetId?: string;
+  onChange: (presets: CustomStylePreset[]) => void;
+  onClose: () => void;
+}
+
+export const StylePresetManager: React.FC<StylePresetManagerProps> = ({ presets, initialPresetId, onChange, onClose }) => {
+  // The draft is only written back (and versioned) on Save
+  const [draft, setDraft] = useState<CustomStylePreset>(
+    () => presets.find(p => p.id === initialPresetId) ?? presets[0] ?? createStylePreset()
+  );
+  const [note, setNote] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const saved = presets.find(p => p.id === draft.id);
+  const isDirty = !saved || updateStylePreset(saved, draft) !== saved;
+
+  const handleSave = () => {
+    const next = saved ? updateStylePreset(saved, draft) : draft;
+    onChange(saved ? presets.map(p => p.id === next.id ? next : p) : [...presets, next]);
+    setDraft(next);
+    setNote(null);
+  };
+
+  const handleDuplicate = () => {
+    const copy = duplicateStylePreset(draft);
+    onChange([...presets, copy]);
+    setDraft(copy);
+  };
+
+  const handleDelete = () => {
+    const remaining = presets.filter(p => p.id !== draft.id);
+    onChange(remaining);
+    setDraft(remaining[0] ?? createStylePreset());
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportStylePresets(presets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'genstudio-styles.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const result = importStylePresets(String(reader.result || ''), presets);
+        onChange(result.presets);
+        setNote(`Imported from ${file.name}: ${result.added} added, ${result.updated} updated, ${result.skipped} skipped.`);
+      } catch (err) {
+        setNote(err instanceof Error ? err.message : String(err));
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-zinc-900 rounded-t-xl">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Palette className="text-blue-400" />
+              Style Presets
+            </h2>
+            <p className="text-sm text-zinc-400">House styles with their own prompt fragment and defaults.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <XCircle size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex">
+          {/* Preset list */}
+          <div className="w-56 shrink-0 border-r border-zinc-800 p-3 space-y-1 overflow-y-auto">
+            <button
+              onClick={() => setDraft(createStylePreset())}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-xs text-blue-400 hover:bg-zinc-800"
+            >
+              <Plus size={14} /> New preset
+            </button>
+            {presets.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setDraft(p)}
+                className={`w-full text-left px-3 py-2 rounded-md text-xs transition-colors ${
+                  draft.id === p.id ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:bg-zinc-800/50'
+                }`}
+              >
+                {p.name}
+                <span className="ml-1 text-[10px] text-zinc-600">v{p.version}</span>
+              </button>
+            ))}
+            <div className="pt-3 mt-3 border-t border-zinc-800 space-y-1">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-xs text-zinc-400 hover:bg-zinc-800"
+              >
+                <Upload size={14} /> Import JSON
+              </button>
+              <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+              <button
+                onClick={handleExport}
+                disabled={presets.length === 0}
+                className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-xs text-zinc-400 hover:bg-zinc-800 disabled:opacity-40"
+              >
+                <Download size={14} /> Export all
+              </button>
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            <div className="flex items-end gap-3">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                className="flex-1 bg-transparent border-b border-zinc-800 pb-1 text-lg font-medium text-zinc-100 focus:outline-none focus:border-blue-500"
+              />
+              <span className="text-xs text-zinc-500 pb-1">
+                {saved ? `v${saved.version}${isDirty ? ' · unsaved changes' : ''}` : 'not saved'}
+              </span>
+            </div>
+
+            {note && <p className="text-[10px] text-zinc-500">{note}</p>}
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Prompt Fragment</label>
+              <textarea
+                value={draft.promptFragment}
+                onChange={(e) => setDraft(prev => ({ ...prev, promptFragment: e.target.value }))}
+                placeholder="shot on medium format film, muted teal and orange palette, soft window light, generous negative space on the right"
+                className="w-full h-32 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+              <p className="text-[10px] text-zinc-600">Appended to every prompt generated with this preset.</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Default Aspect Ratio</label>
+              <select
+                value={draft.aspectRatio ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, aspectRatio: (e.target.value || undefined) as AspectRatio | undefined }))}
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg p-2 text-sm text-zinc-100 focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">Keep current</option>
+                {ASPECT_RATIOS.map(ratio => (
+                  <option key={ratio} value={ratio}>{ratio}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Default Negative Prompt</label>
+              <textarea
+                value={draft.negativePrompt || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, negativePrompt: e.target.value || undefined }))}
+                placeholder="Leave empty to keep the current negative prompt"
+                className="w-full h-20 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-xs text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between px-6 py-4 border-t border-zinc-800">
+          <div className="flex gap-2">
+            {saved && (
+              <>
+                <Button variant="secondary" size="sm" onClick={handleDuplicate} icon={<Copy className="w-3 h-3" />}>
+                  Duplicate
+                </Button>
+                <Button variant="ghost" size="sm" onClick={handleDelete} icon={<Trash2 className="w-3 h-3" />}>
+                  Delete
+                </Button>
+              </>
+            )}
+          </div>
+          <Button onClick={handleSave} disabled={!draft.promptFragment.trim() || !isDirty} icon={<Save className="w-4 h-4" />}>
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,277 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { GenerationParams, PromptTemplate, TemplateExpansionMode } from '../types';
+import { TEMPLATE_EXAMPLES, MAX_TEMPLATE_EXPANSION } from '../constants';
+import {
+  extractPlaceholders,
+  countExpansion,
+  expandTemplate,
+  buildTemplateParams,
+  parseCsvColumns,
+  loadTemplates,
+  saveTemplates
+} from '../services/templateService';
+import { lintPrompt, hasLintErrors } from '../services/promptLintService';
+import { Button } from './Button';
+import { Braces, XCircle, Plus, Save, Trash2, Upload, ListPlus, AlertTriangle } from 'lucide-react';
+
+interface TemplateBuilderProps {
+  baseParams: GenerationParams;
+  blockOnLintErrors: boolean;
+  onEnqueue: (paramsList: GenerationParams[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_COUNT = 8;
+
+const emptyTemplate = (): PromptTemplate => ({
+  id: crypto.randomUUID(),
+  name: 'Untitled template',
+  template: '',
+  variables: {}
+});
+
+export const TemplateBuilder: React.FC<TemplateBuilderProps> = ({ baseParams, blockOnLintErrors, onEnqueue, onClose }) => {
+  const [userTemplates, setUserTemplates] = useState<PromptTemplate[]>(loadTemplates);
+  const [draft, setDraft] = useState<PromptTemplate>(() => ({ ...TEMPLATE_EXAMPLES[0] }));
+  const [mode, setMode] = useState<TemplateExpansionMode>('cartesian');
+  const [csvNote, setCsvNote] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const placeholders = useMemo(() => extractPlaceholders(draft.template), [draft.template]);
+  const total = countExpansion(draft.template, draft.variables, mode);
+  // Every prompt that would be queued is linted, since a single value like "iPhone" can trip it
+  const expanded = useMemo(() => {
+    return expandTemplate(draft.template, draft.variables, mode, MAX_TEMPLATE_EXPANSION)
+      .map(prompt => ({ prompt, issues: lintPrompt(prompt) }));
+  }, [draft, mode]);
+  const blocked = blockOnLintErrors ? expanded.filter(row => hasLintErrors(row.issues)).length : 0;
+  const queueable = expanded.length - blocked;
+  // The first rows plus every flagged row further down
+  const preview = expanded.filter((row, i) => i < PREVIEW_COUNT || row.issues.length > 0);
+  const isSaved = userTemplates.some(t => t.id === draft.id);
+
+  const persist = (templates: PromptTemplate[]) => {
+    setUserTemplates(templates);
+    saveTemplates(templates);
+  };
+
+  const setValues = (name: string, text: string) => {
+    setDraft(prev => ({ ...prev, variables: { ...prev.variables, [name]: text.split('\n') } }));
+  };
+
+  const handleSave = () => {
+    // Built-in templates are saved as an editable copy
+    const saved: PromptTemplate = draft.builtIn
+      ? { ...draft, id: crypto.randomUUID(), builtIn: undefined }
+      : draft;
+    persist(isSaved ? userTemplates.map(t => t.id === saved.id ? saved : t) : [...userTemplates, saved]);
+    setDraft(saved);
+  };
+
+  const handleDelete = () => {
+    persist(userTemplates.filter(t => t.id !== draft.id));
+    setDraft(emptyTemplate());
+  };
+
+  const handleCsvImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = String(reader.result || '');
+      const found = Object.keys(parseCsvColumns(text).columns);
+      const matched = found.filter(name => placeholders.includes(name));
+      const ignored = found.filter(name => !placeholders.includes(name));
+      if (matched.length === 0) {
+        setCsvNote(`No CSV column matches a placeholder. Columns found: ${found.join(', ') || 'none'}.`);
+        return;
+      }
+      // Only the matched columns decide which rows are complete
+      const { columns, incompleteRows } = parseCsvColumns(text, matched);
+      setDraft(prev => ({
+        ...prev,
+        variables: { ...prev.variables, ...Object.fromEntries(matched.map(name => [name, columns[name]])) }
+      }));
+      setCsvNote([
+        `Filled ${matched.map(n => `{${n}}`).join(', ')} from ${file.name}.`,
+        ignored.length ? `Ignored: ${ignored.join(', ')}.` : '',
+        incompleteRows.length ? `Skipped row${incompleteRows.length === 1 ? '' : 's'} ${incompleteRows.join(', ')} with empty cells.` : ''
+      ].filter(Boolean).join(' '));
+    };
+    reader.readAsText(file);
+  };
+
+  const handleEnqueue = () => {
+    const prompts = expanded
+      .filter(row => !blockOnLintErrors || !hasLintErrors(row.issues))
+      .map(row => row.prompt);
+    onEnqueue(buildTemplateParams(baseParams, prompts));
+    onClose();
+  };
+
+  const templates = [...TEMPLATE_EXAMPLES, ...userTemplates];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl w-full max-w-5xl max-h-[90vh] flex flex-col shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-zinc-900 rounded-t-xl">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Braces className="text-blue-400" />
+              Prompt Templates
+            </h2>
+            <p className="text-sm text-zinc-400">Write a prompt with {'{placeholders}'} and expand it into a themed series.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <XCircle size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex">
+          {/* Template list */}
+          <div className="w-56 shrink-0 border-r border-zinc-800 p-3 space-y-1 overflow-y-auto">
+            <button
+              onClick={() => setDraft(emptyTemplate())}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-xs text-blue-400 hover:bg-zinc-800"
+            >
+              <Plus size={14} /> New template
+            </button>
+            {templates.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setDraft({ ...t, variables: { ...t.variables } })}
+                className={`w-full text-left px-3 py-2 rounded-md text-xs transition-colors ${
+                  draft.id === t.id ? 'bg-zinc-800 text-white' : 'text-zinc-400 hover:bg-zinc-800/50'
+                }`}
+              >
+                {t.name}
+                {t.builtIn && <span className="ml-1 text-[10px] text-zinc-600">built-in</span>}
+              </button>
+            ))}
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-5">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full bg-transparent border-b border-zinc-800 pb-1 text-lg font-medium text-zinc-100 focus:outline-none focus:border-blue-500"
+            />
+
+            <div className="space-y-2">
+              <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Template</label>
+              <textarea
+                value={draft.template}
+                onChange={(e) => setDraft(prev => ({ ...prev, template: e.target.value }))}
+                placeholder="A modern {industry} office with {subject}, {lighting}"
+                className="w-full h-24 bg-zinc-800 border border-zinc-700 rounded-lg p-3 text-sm text-zinc-100 placeholder-zinc-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none font-mono"
+              />
+            </div>
+
+            {placeholders.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-semibold uppercase tracking-wider text-zinc-500">Values (one per line)</label>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center gap-1 text-xs text-zinc-400 hover:text-blue-400"
+                    title="CSV header names must match the placeholders"
+                  >
+                    <Upload size={12} /> Import CSV
+                  </button>
+                  <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsvImport} />
+                </div>
+                {csvNote && <p className="text-[10px] text-zinc-500">{csvNote}</p>}
+                <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+                  {placeholders.map(name => (
+                    <div key={name} className="space-y-1">
+                      <span className="text-xs font-mono text-blue-400">{`{${name}}`}</span>
+                      <textarea
+                        value={(draft.variables[name] || []).join('\n')}
+                        onChange={(e) => setValues(name, e.target.value)}
+                        className="w-full h-28 bg-zinc-800 border border-zinc-700 rounded-lg p-2 text-xs text-zinc-100 focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex bg-zinc-800 rounded-lg p-0.5 text-xs">
+                  {(['cartesian', 'zip'] as TemplateExpansionMode[]).map(m => (
+                    <button
+                      key={m}
+                      onClick={() => setMode(m)}
+                      className={`px-3 py-1 rounded-md transition-colors ${mode === m ? 'bg-zinc-700 text-white' : 'text-zinc-400 hover:text-zinc-200'}`}
+                      title={m === 'cartesian' ? 'Every combination of values' : 'Row by row; shorter lists repeat'}
+                    >
+                      {m === 'cartesian' ? 'Cartesian' : 'Zipped'}
+                    </button>
+                  ))}
+                </div>
+                <span className="text-xs text-zinc-400">{total} prompt{total === 1 ? '' : 's'}</span>
+              </div>
+              {total > MAX_TEMPLATE_EXPANSION && (
+                <p className="flex items-center gap-1 text-[10px] text-yellow-400">
+                  <AlertTriangle size={12} /> Only the first {MAX_TEMPLATE_EXPANSION} prompts will be queued.
+                </p>
+              )}
+              {blocked > 0 && (
+                <p className="flex items-center gap-1 text-[10px] text-red-400">
+                  <AlertTriangle size={12} /> {blocked} prompt{blocked === 1 ? '' : 's'} with lint errors will be skipped. Turn off blocking in the control panel to queue them anyway.
+                </p>
+              )}
+              <ul className="space-y-1">
+                {preview.map(({ prompt, issues }, i) => (
+                  <li
+                    key={i}
+                    className={`text-xs text-zinc-300 bg-zinc-950/50 p-2 rounded border ${
+                      hasLintErrors(issues) ? 'border-red-700/50' : issues.length > 0 ? 'border-yellow-700/50' : 'border-zinc-800/50'
+                    }`}
+                  >
+                    {prompt}
+                    {issues.map((issue, j) => (
+                      <span key={j} className={`block text-[10px] ${issue.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}>
+                        {issue.message}
+                      </span>
+                    ))}
+                  </li>
+                ))}
+                {total > preview.length && (
+                  <li className="text-[10px] text-zinc-600">…and {total - preview.length} more</li>
+                )}
+              </ul>
+              <p className="text-[10px] text-zinc-600">
+                Aspect ratio, style, resolution and negative prompt are taken from the control panel.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between px-6 py-4 border-t border-zinc-800">
+          <div className="flex gap-2">
+            <Button variant="secondary" size="sm" onClick={handleSave} disabled={!draft.template.trim()} icon={<Save className="w-3 h-3" />}>
+              {draft.builtIn ? 'Save as copy' : 'Save'}
+            </Button>
+            {isSaved && (
+              <Button variant="ghost" size="sm" onClick={handleDelete} icon={<Trash2 className="w-3 h-3" />}>
+                Delete
+              </Button>
+            )}
+          </div>
+          <Button onClick={handleEnqueue} disabled={queueable === 0} icon={<ListPlus className="w-4 h-4" />}>
+            Add {queueable} to Queue
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedImage, ImageQuality, ModelPrice, PriceTable, UsageEntry } from '../types';
+import { summarizeUsage, UsageGrouping } from '../services/usageService';
+import { DEFAULT_PRICE_TABLE, QUALITIES } from '../constants';
+import { Button } from './Button';
+import { Receipt, XCircle, Trash2, RotateCcw, ImageOff } from 'lucide-react';
+
+interface UsagePanelProps {
+  entries: UsageEntry[];
+  images: GeneratedImage[];
+  prices: PriceTable;
+  onPricesChange: (prices: PriceTable) => void;
+  onClear: () => void;
+  onSelectImage: (image: GeneratedImage) => void;
+  onClose: () => void;
+}
+
+type UsageTab = UsageGrouping | 'prices';
+
+const TABS: { id: UsageTab; label: string }[] = [
+  { id: 'day', label: 'Per Day' },
+  { id: 'image', label: 'Per Image' },
+  { id: 'batch', label: 'Per Batch' },
+  { id: 'prices', label: 'Prices' }
+];
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+
+const formatTokens = (tokens: number) => tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ entries, images, prices, onPricesChange, onClear, onSelectImage, onClose }) => {
+  const [activeTab, setActiveTab] = useState<UsageTab>('day');
+
+  const summaries = useMemo(
+    () => activeTab === 'prices' ? [] : summarizeUsage(entries, activeTab),
+    [entries, activeTab]
+  );
+
+  const totalCost = entries.reduce((sum, entry) => sum + entry.estimatedCost, 0);
+  const totalTokens = entries.reduce((sum, entry) => sum + (entry.totalTokens ?? 0), 0);
+  const failedCalls = entries.filter(entry => entry.status !== 'ok').length;
+  const imageCalls = entries.filter(entry => entry.status === 'ok' && (entry.task === 'generateImage' || entry.task === 'editImage')).length;
+
+  const updatePrice = (model: string, patch: Partial<ModelPrice>) => {
+    onPricesChange({ ...prices, [model]: { ...prices[model], ...patch } });
+  };
+
+  const updateImagePrice = (model: string, quality: ImageQuality, value: number) => {
+    updatePrice(model, { perImage: { ...prices[model].perImage, [quality]: value } });
+  };
+
+  const priceInput = (value: number | undefined, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      step="0.01"
+      value={value ?? ''}
+      placeholder="–"
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className="w-20 bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-xs text-zinc-200 focus:ring-2 focus:ring-blue-500"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-zinc-900 border border-zinc-800 rounded-xl w-full max-w-4xl max-h-[90vh] flex flex-col shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-zinc-800 bg-zinc-900 rounded-t-xl">
+          <div>
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <Receipt className="text-green-400" />
+              Usage &amp; Cost
+            </h2>
+            <p className="text-sm text-zinc-400">Every model call made from this browser, with estimated cost.</p>
+          </div>
+          <button onClick={onClose} className="text-zinc-500 hover:text-white transition-colors">
+            <XCircle size={24} />
+          </button>
+        </div>
+
+        {/* Totals */}
+        <div className="grid grid-cols-4 gap-3 px-6 py-4 border-b border-zinc-800">
+          <div className="p-3 bg-zinc-800/30 rounded border border-zinc-800">
+            <span className="text-[10px] uppercase text-zinc-500 block">Estimated Cost</span>
+            <span className="text-lg font-semibold text-green-400">{formatCost(totalCost)}</span>
+          </div>
+          <div className="p-3 bg-zinc-800/30 rounded border border-zinc-800">
+            <span className="text-[10px] uppercase text-zinc-500 block">Calls</span>
+            <span className="text-lg font-semibold text-zinc-200">{entries.length}</span>
+            {failedCalls > 0 && <span className="text-[10px] text-red-400 ml-2">{failedCalls} failed</span>}
+          </div>
+          <div className="p-3 bg-zinc-800/30 rounded border border-zinc-800">
+            <span className="text-[10px] uppercase text-zinc-500 block">Images Produced</span>
+            <span className="text-lg font-semibold text-zinc-200">{imageCalls}</span>
+          </div>
+          <div className="p-3 bg-zinc-800/30 rounded border border-zinc-800">
+            <span className="text-[10px] uppercase text-zinc-500 block">Tokens</span>
+            <span className="text-lg font-semibold text-zinc-200">{formatTokens(totalTokens)}</span>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex border-b border-zinc-800 bg-zinc-950/50 px-6 pt-2 gap-1">
+          {TABS.map(tab => (
+            <button
+              key={tab.id}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors ${
+                activeTab === tab.id
+                  ? 'text-white border-blue-500 bg-zinc-800/50 rounded-t-lg'
+                  : 'text-zinc-500 border-transparent hover:text-zinc-300 hover:bg-zinc-800/30'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {activeTab === 'prices' ? (
+            <div className="space-y-3">
+              <p className="text-xs text-zinc-500">
+                USD per 1M tokens, plus a flat per-image price used when the provider reports no token counts.
+                Changes re-price every recorded call.
+              </p>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-[10px] uppercase text-zinc-500">
+                    <th className="pb-2 font-medium">Model</th>
+                    <th className="pb-2 font-medium">Input / 1M</th>
+                    <th className="pb-2 font-medium">Output / 1M</th>
+                    {QUALITIES.map(q => <th key={q} className="pb-2 font-medium">{q} image</th>)}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-zinc-800">
+                  {(Object.entries(prices) as [string, ModelPrice][]).map(([model, price]) => (
+                    <tr key={model}>
+                      <td className="py-2 pr-3 text-zinc-300 font-mono">{model}</td>
+                      <td className="py-2">{priceInput(price.inputPerMillion, value => updatePrice(model, { inputPerMillion: value }))}</td>
+                      <td className="py-2">{priceInput(price.outputPerMillion, value => updatePrice(model, { outputPerMillion: value }))}</td>
+                      {QUALITIES.map(q => (
+                        <td key={q} className="py-2">{priceInput(price.perImage?.[q], value => updateImagePrice(model, q, value))}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <Button variant="ghost" size="sm" onClick={() => onPricesChange({ ...DEFAULT_PRICE_TABLE })} icon={<RotateCcw className="w-3 h-3" />}>
+                Reset to list prices
+              </Button>
+            </div>
+          ) : summaries.length === 0 ? (
+            <p className="text-sm text-zinc-500 text-center py-12">No model calls recorded yet.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-[10px] uppercase text-zinc-500">
+                  <th className="pb-2 font-medium">{activeTab === 'day' ? 'Day' : activeTab === 'image' ? 'Image' : 'Batch'}</th>
+                  <th className="pb-2 font-medium text-right">Calls</th>
+                  <th className="pb-2 font-medium text-right">Tokens in / out</th>
+                  <th className="pb-2 font-medium text-right">Avg latency</th>
+                  <th className="pb-2 font-medium text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-800">
+                {summaries.map(summary => {
+                  const image = summary.imageId ? images.find(img => img.id === summary.imageId) : undefined;
+                  return (
+                    <tr key={summary.key} className="text-zinc-300">
+                      <td className="py-2 pr-3">
+                        {activeTab === 'image' && summary.imageId ? (
+                          <button
+                            onClick={() => image && onSelectImage(image)}
+                            disabled={!image}
+                            className="flex items-center gap-2 hover:text-blue-400 disabled:hover:text-zinc-300"
+                          >
+                            {image ? (
+                              <img src={image.url} alt="" className="w-8 h-8 rounded object-cover border border-zinc-700" />
+                            ) : (
+                              <span className="w-8 h-8 rounded bg-zinc-800 border border-zinc-700 flex items-center justify-center" title="Not in history">
+                                <ImageOff size={12} className="text-zinc-600" />
+                              </span>
+                            )}
+                            <span className="font-mono">{summary.label}</span>
+                          </button>
+                        ) : (
+                          <span>{summary.label}</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right">
+                        {summary.calls}
+                        {summary.failedCalls > 0 && <span className="text-red-400"> ({summary.failedCalls} failed)</span>}
+                      </td>
+                      <td className="py-2 text-right font-mono">{formatTokens(summary.promptTokens)} / {formatTokens(summary.outputTokens)}</td>
+                      <td className="py-2 text-right">{(summary.latencyMs / summary.calls / 1000).toFixed(1)}s</td>
+                      <td className="py-2 text-right font-semibold text-green-400">{formatCost(summary.cost)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end px-6 py-4 border-t border-zinc-800">
+          <Button variant="danger" size="sm" onClick={onClear} disabled={entries.length === 0} icon={<Trash2 className="w-3 h-3" />}>
+            Clear ledger
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
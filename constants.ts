@@ -1,12 +1,45 @@
-import { AspectRatio, ImageQuality, StylePreset, PromptExample } from './types';
+import { AspectRatio, ImageQuality, StylePreset, PromptExample, ReferenceRole, PriceTable, PromptTemplate, EnhanceStrategy, StockPlatform, PlatformRules, ImageMetadata, MetadataLanguage, CategoryTaxonomy, ValidationProfile, ValidationWeights } from './types';
 import { Camera, Briefcase, Cpu, Box, Coffee, Layers } from 'lucide-react';
 
 export const ASPECT_RATIOS = Object.values(AspectRatio);
 export const QUALITIES = Object.values(ImageQuality);
 export const STYLES = Object.values(StylePreset);
+export const REFERENCE_ROLES = Object.values(ReferenceRole);
+export const CONTENT_TYPES: ImageMetadata['contentType'][] = ['Photography', 'Illustration', '3D Render', 'Vector'];
+
+export const MAX_REFERENCE_IMAGES = 6;
+
+// How the model should use each attached reference image
+export const REFERENCE_ROLE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+  [ReferenceRole.STYLE]: "Match the color palette, lighting and rendering style of this image. Do not copy its content.",
+  [ReferenceRole.COMPOSITION]: "Follow the layout, framing, camera angle and placement of elements in this image.",
+  [ReferenceRole.SUBJECT]: "Keep the main subject of this image recognizable and consistent in the new image."
+};
+
+export const ENHANCE_STRATEGIES = Object.values(EnhanceStrategy);
+
+// What the prompt enhancer should optimize the rewrite for
+export const ENHANCE_STRATEGY_INSTRUCTIONS: Record<EnhanceStrategy, string> = {
+  [EnhanceStrategy.COMMERCIAL_LIFESTYLE]: "Turn it into an authentic commercial lifestyle scene: diverse, natural-looking people in a believable real-world setting, candid interaction, bright natural light, shallow depth of field.",
+  [EnhanceStrategy.COPY_SPACE]: "Compose for advertising layouts: keep the subject to one side or the lower third and leave a large clean, uncluttered area of negative space for designers to place text.",
+  [EnhanceStrategy.ISOLATED_ON_WHITE]: "Show the subject isolated on a pure white seamless background, evenly lit studio lighting, soft contact shadow, entire subject in frame, no props.",
+  [EnhanceStrategy.CONCEPTUAL_BACKGROUND]: "Express the idea as an abstract conceptual background: symbolic shapes, textures, gradients and light, suitable for presentations and web banners, no people."
+};
 
 export const MICROSTOCK_NEGATIVE_PROMPT = "text, watermark, signature, logo, brand name, trademark, blurry, low quality, distorted, ugly, bad anatomy, extra limbs, copyright symbol";
 
+// Published Gemini API list prices (USD); editable from the Usage view
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-3-pro-image-preview': {
+    inputPerMillion: 2,
+    outputPerMillion: 120, // image output tokens
+    perImage: { [ImageQuality.ONE_K]: 0.134, [ImageQuality.TWO_K]: 0.134, [ImageQuality.FOUR_K]: 0.24 }
+  },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-flash-lite-latest': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'mock-placeholder': { inputPerMillion: 0, outputPerMillion: 0 }
+};
+
 export const MICROSTOCK_ENHANCERS = "professional stock photography, high resolution, sharp focus, perfect lighting, commercial quality, royalty free style, clean composition";
 
 export const EXAMPLES: PromptExample[] = [
@@ -35,4 +68,197 @@ export const EXAMPLES: PromptExample[] = [
     prompt: "Knolling photography of artist supplies: brushes, paints, sketchbook, and pencils arranged neatly on a wooden texture, top down view, flat lay, sharp focus",
     icon: "Layers"
   }
-];
\ No newline at end of file
+];
+// Upper bound for one template expansion, matching the largest batch the queue accepts at once
+export const MAX_TEMPLATE_EXPANSION = 100;
+
+// Default JPEG export quality; stock sites recommend the highest setting
+export const DEFAULT_JPEG_QUALITY = 95;
+
+// Written into metadata by every provider; replaced with the author name on export
+export const AUTHOR_PLACEHOLDER = '{{author}}';
+
+// Target languages for metadata translation, by ISO 639-1 code (also used as xml:lang in XMP)
+export const METADATA_LANGUAGES: Record<MetadataLanguage, string> = {
+  de: 'German',
+  es: 'Spanish',
+  fr: 'French',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  pl: 'Polish',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese (Simplified)'
+};
+
+export const TEMPLATE_EXAMPLES: PromptTemplate[] = [
+  {
+    id: 'builtin-office-industries',
+    name: 'Office across industries',
+    template: "A modern {industry} office workspace with {subject}, {lighting}, professional business photography, copy space",
+    variables: {
+      industry: [
+        "architecture", "healthcare", "finance", "legal", "education", "software",
+        "marketing", "logistics", "real estate", "manufacturing", "hospitality", "energy"
+      ],
+      subject: ["a laptop and documents on the desk"],
+      lighting: ["soft natural window light"]
+    },
+    builtIn: true
+  },
+  {
+    id: 'builtin-seasonal-flatlay',
+    name: 'Seasonal flat lay',
+    template: "Flat lay of {items} on a {surface}, {season} theme, top down view, sharp focus, minimal composition",
+    variables: {
+      items: ["coffee cup and notebook", "gift boxes and ribbons", "fresh fruit and flowers"],
+      surface: ["white marble table", "rustic wooden board"],
+      season: ["spring", "summer", "autumn", "winter"]
+    },
+    builtIn: true
+  }
+];
+
+const DEFAULT_VALIDATION_WEIGHTS: ValidationWeights = {
+  titleLength: 15,
+  titleWords: 5,
+  description: 10,
+  missingKeyword: 1.5, // heavy penalty for low keywords
+  extraKeyword: 2,
+  duplicateKeyword: 3,
+  brand: 25, // major penalty
+  aiFlag: 10,
+  missingField: 20,
+  category: 10
+};
+
+// Used when no platform is chosen: the strictest common denominator of the supported platforms
+export const GENERIC_VALIDATION_PROFILE: ValidationProfile = {
+  label: 'most platforms',
+  titleField: 'title',
+  titleLen: [20, 70],
+  titleMinWords: 5,
+  descriptionMinWords: 10,
+  keywords: [30, 50],
+  recommendedKeywords: 30,
+  requiredFields: ['title', 'description', 'keywords'],
+  weights: DEFAULT_VALIDATION_WEIGHTS,
+  passScore: 80
+};
+
+export const STOCK_PLATFORMS: Record<StockPlatform, PlatformRules> = {
+  'Adobe Stock': {
+    minMP: 4,
+    formats: ['JPEG'],
+    label: 'Adobe Stock',
+    titleField: 'title',
+    titleLen: [5, 70], // strict display limit
+    titleMinWords: 3,
+    descriptionMinWords: 0, // Adobe Stock has no description field
+    keywords: [5, 49], // the uploader rejects a 50th keyword
+    recommendedKeywords: 25, // search weighs the first 10 most, so order beats volume
+    requiredFields: ['title', 'keywords'],
+    weights: { ...DEFAULT_VALIDATION_WEIGHTS, titleLength: 20, missingKeyword: 1 },
+    passScore: 80,
+    reviewTime: '3-5 Days',
+    prohibited: ['Editorial Use Only (for AI)', 'Famous People', 'Logos'],
+    color: 'border-red-500 text-red-500'
+  },
+  'Shutterstock': {
+    minMP: 4,
+    formats: ['JPEG', 'EPS'],
+    label: 'Shutterstock',
+    titleField: 'description', // Shutterstock has no title; the description is shown instead
+    titleLen: [20, 200],
+    titleMinWords: 5,
+    descriptionMinWords: 0,
+    keywords: [7, 50],
+    recommendedKeywords: 25,
+    requiredFields: ['description', 'keywords'],
+    weights: { ...DEFAULT_VALIDATION_WEIGHTS, missingKeyword: 1 },
+    passScore: 80,
+    reviewTime: '1-3 Days',
+    prohibited: ['Bio-metric data', 'Copyrighted Characters', 'Brand Names'],
+    color: 'border-red-600 text-red-600'
+  },
+  'iStock/Getty': {
+    minMP: 3, // roughly
+    formats: ['JPEG'],
+    label: 'iStock/Getty',
+    titleField: 'title',
+    titleLen: [5, 80],
+    titleMinWords: 3,
+    descriptionMinWords: 5,
+    descriptionMaxLen: 250,
+    keywords: [5, 50],
+    recommendedKeywords: 30,
+    requiredFields: ['title', 'description', 'keywords'],
+    weights: { ...DEFAULT_VALIDATION_WEIGHTS, description: 15 },
+    passScore: 80,
+    reviewTime: '1-2 Weeks',
+    prohibited: ['Specific Buildings (Prop Release)', 'Visible Tattoos (Model Release)'],
+    color: 'border-blue-500 text-blue-500'
+  }
+};
+
+// Platforms whose uploaders ask for a category; iStock/Getty categorizes from keywords instead
+export const PLATFORM_CATEGORIES: Partial<Record<StockPlatform, CategoryTaxonomy>> = {
+  'Adobe Stock': {
+    maxCategories: 1,
+    categories: [
+      { id: '1', label: 'Animals', terms: ['animal', 'pet', 'dog', 'cat', 'bird', 'wildlife', 'fish', 'insect', 'horse', 'puppy', 'kitten'] },
+      { id: '2', label: 'Buildings and Architecture', terms: ['building', 'architecture', 'house', 'interior', 'skyscraper', 'room', 'facade', 'bridge', 'home'] },
+      { id: '3', label: 'Business', terms: ['business', 'office', 'finance', 'corporate', 'meeting', 'workplace', 'entrepreneur', 'marketing', 'startup', 'teamwork'] },
+      { id: '4', label: 'Drinks', terms: ['drink', 'beverage', 'coffee', 'tea', 'wine', 'beer', 'cocktail', 'juice', 'smoothie'] },
+      { id: '5', label: 'The Environment', terms: ['environment', 'ecology', 'climate', 'sustainability', 'recycling', 'pollution', 'renewable', 'green energy'] },
+      { id: '6', label: 'States of Mind', terms: ['emotion', 'mood', 'happiness', 'stress', 'calm', 'mindfulness', 'loneliness', 'motivation', 'concept'] },
+      { id: '7', label: 'Food', terms: ['food', 'meal', 'cooking', 'dish', 'fruit', 'vegetable', 'dessert', 'breakfast', 'kitchen', 'recipe', 'bakery'] },
+      { id: '8', label: 'Graphic Resources', terms: ['background', 'texture', 'pattern', 'abstract', 'icon', 'template', 'wallpaper', 'backdrop', 'copy space', 'gradient'] },
+      { id: '9', label: 'Hobbies and Leisure', terms: ['hobby', 'leisure', 'gardening', 'reading', 'gaming', 'crafts', 'music', 'painting', 'relaxation', 'vacation'] },
+      { id: '10', label: 'Industry', terms: ['industry', 'industrial', 'factory', 'manufacturing', 'construction', 'machinery', 'warehouse', 'engineering', 'logistics'] },
+      { id: '11', label: 'Landscapes', terms: ['landscape', 'mountain', 'sea', 'ocean', 'beach', 'forest', 'sunset', 'sunrise', 'scenery', 'lake', 'desert', 'sky', 'nature'] },
+      { id: '12', label: 'Lifestyle', terms: ['lifestyle', 'family', 'home life', 'everyday', 'wellness', 'fashion', 'shopping', 'friends', 'cozy'] },
+      { id: '13', label: 'People', terms: ['people', 'person', 'man', 'woman', 'child', 'portrait', 'face', 'group', 'senior', 'teenager'] },
+      { id: '14', label: 'Plants and Flowers', terms: ['plant', 'flower', 'tree', 'leaf', 'floral', 'botanical', 'garden', 'blossom', 'succulent'] },
+      { id: '15', label: 'Culture and Religion', terms: ['culture', 'religion', 'tradition', 'festival', 'holiday', 'christmas', 'ramadan', 'diwali', 'ceremony', 'heritage'] },
+      { id: '16', label: 'Science', terms: ['science', 'laboratory', 'research', 'medical', 'medicine', 'healthcare', 'chemistry', 'biology', 'microscope', 'space'] },
+      { id: '17', label: 'Social Issues', terms: ['social issue', 'poverty', 'diversity', 'inclusion', 'equality', 'protest', 'charity', 'volunteer', 'refugee'] },
+      { id: '18', label: 'Sports', terms: ['sport', 'fitness', 'exercise', 'athlete', 'football', 'soccer', 'running', 'gym', 'yoga', 'tennis', 'cycling'] },
+      { id: '19', label: 'Technology', terms: ['technology', 'computer', 'digital', 'smartphone', 'laptop', 'robot', 'artificial intelligence', 'data', 'network', 'futuristic', 'cyber'] },
+      { id: '20', label: 'Transport', terms: ['transport', 'transportation', 'car', 'vehicle', 'train', 'airplane', 'ship', 'bicycle', 'traffic', 'road'] },
+      { id: '21', label: 'Travel', terms: ['travel', 'tourism', 'destination', 'landmark', 'journey', 'adventure', 'city', 'hotel', 'luggage'] }
+    ]
+  },
+  'Shutterstock': {
+    maxCategories: 2,
+    categories: [
+      { id: 'Abstract', label: 'Abstract', terms: ['abstract', 'geometric', 'fractal', 'shapes', 'gradient'] },
+      { id: 'Animals/Wildlife', label: 'Animals/Wildlife', terms: ['animal', 'wildlife', 'pet', 'dog', 'cat', 'bird', 'fish', 'insect', 'horse'] },
+      { id: 'Arts', label: 'Arts', terms: ['art', 'artistic', 'painting', 'drawing', 'sculpture', 'artist', 'craft'] },
+      { id: 'Backgrounds/Textures', label: 'Backgrounds/Textures', terms: ['background', 'texture', 'pattern', 'wallpaper', 'backdrop', 'copy space', 'surface'] },
+      { id: 'Beauty/Fashion', label: 'Beauty/Fashion', terms: ['beauty', 'fashion', 'makeup', 'cosmetics', 'style', 'clothing', 'model', 'skincare'] },
+      { id: 'Buildings/Landmarks', label: 'Buildings/Landmarks', terms: ['building', 'architecture', 'landmark', 'skyscraper', 'house', 'facade', 'bridge', 'monument'] },
+      { id: 'Business/Finance', label: 'Business/Finance', terms: ['business', 'finance', 'office', 'corporate', 'money', 'meeting', 'marketing', 'startup', 'teamwork'] },
+      { id: 'Celebrities', label: 'Celebrities', terms: ['celebrity'] },
+      { id: 'Education', label: 'Education', terms: ['education', 'school', 'student', 'learning', 'classroom', 'teacher', 'university', 'study'] },
+      { id: 'Food and drink', label: 'Food and drink', terms: ['food', 'drink', 'meal', 'coffee', 'beverage', 'fruit', 'vegetable', 'dessert', 'cooking', 'kitchen'] },
+      { id: 'Healthcare/Medical', label: 'Healthcare/Medical', terms: ['healthcare', 'medical', 'medicine', 'doctor', 'nurse', 'hospital', 'health', 'pharmacy'] },
+      { id: 'Holidays', label: 'Holidays', terms: ['holiday', 'christmas', 'easter', 'halloween', 'thanksgiving', 'new year', 'valentine', 'celebration'] },
+      { id: 'Industrial', label: 'Industrial', terms: ['industrial', 'industry', 'factory', 'manufacturing', 'construction', 'machinery', 'warehouse'] },
+      { id: 'Interiors', label: 'Interiors', terms: ['interior', 'room', 'living room', 'bedroom', 'furniture', 'home decor', 'kitchen'] },
+      { id: 'Miscellaneous', label: 'Miscellaneous', terms: [] },
+      { id: 'Nature', label: 'Nature', terms: ['nature', 'landscape', 'forest', 'mountain', 'flower', 'plant', 'tree', 'ocean', 'sky', 'sunset', 'garden'] },
+      { id: 'Objects', label: 'Objects', terms: ['object', 'still life', 'tool', 'product', 'isolated', 'equipment', 'flat lay', 'knolling'] },
+      { id: 'Parks/Outdoor', label: 'Parks/Outdoor', terms: ['park', 'outdoor', 'hiking', 'camping', 'picnic', 'playground'] },
+      { id: 'People', label: 'People', terms: ['people', 'person', 'man', 'woman', 'child', 'portrait', 'family', 'group', 'senior'] },
+      { id: 'Religion', label: 'Religion', terms: ['religion', 'religious', 'church', 'temple', 'mosque', 'prayer', 'spiritual'] },
+      { id: 'Science', label: 'Science', terms: ['science', 'laboratory', 'research', 'chemistry', 'biology', 'microscope', 'space', 'astronomy'] },
+      { id: 'Signs/Symbols', label: 'Signs/Symbols', terms: ['sign', 'symbol', 'icon', 'arrow', 'emblem'] },
+      { id: 'Sports/Recreation', label: 'Sports/Recreation', terms: ['sport', 'fitness', 'exercise', 'athlete', 'recreation', 'gym', 'yoga', 'running', 'football'] },
+      { id: 'Technology', label: 'Technology', terms: ['technology', 'computer', 'digital', 'smartphone', 'laptop', 'robot', 'artificial intelligence', 'data', 'network', 'futuristic', 'cyber'] },
+      { id: 'Transportation', label: 'Transportation', terms: ['transportation', 'transport', 'car', 'vehicle', 'train', 'airplane', 'ship', 'bicycle', 'traffic'] },
+      { id: 'Vintage', label: 'Vintage', terms: ['vintage', 'retro', 'antique', 'nostalgic', 'old-fashioned'] }
+    ]
+  }
+};
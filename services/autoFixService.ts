@@ -0,0 +1,61 @@
+import { AICallOptions, AIProvider, GenerationParams, GenerationResult, QualityAssessment } from '../types';
+
+export interface AutoFixAttempt {
+  id: string; // image id, allocated up front so the attempt's calls can be attributed to it
+  attempt: number; // 1-based
+  params: GenerationParams;
+  result: GenerationResult;
+  assessment: QualityAssessment;
+}
+
+/**
+ * Turns reported defects into corrective prompt constraints, skipping ones already present.
+ */
+export const buildConstraintsFromIssues = (issues: string[], existing: string[] = []): string[] => {
+  const constraints = [...existing];
+  for (const issue of issues) {
+    const constraint = `avoid ${issue.trim().replace(/\.$/, '').toLowerCase()}`;
+    if (!constraints.includes(constraint)) {
+      constraints.push(constraint);
+    }
+  }
+  return constraints;
+};
+
+/**
+ * Generates an image and assesses it, regenerating with the reported issues as constraints
+ * until it passes or `maxAttempts` is reached. Every attempt is reported through `onAttempt`
+ * as soon as it is assessed; the best-scoring attempt is returned.
+ */
+export const runQualityGatedGeneration = async (
+  provider: AIProvider,
+  params: GenerationParams,
+  maxAttempts: number,
+  onAttempt: (attempt: AutoFixAttempt) => void,
+  options: AICallOptions = {}
+): Promise<AutoFixAttempt> => {
+  let best: AutoFixAttempt | null = null;
+  let attemptParams: GenerationParams = { ...params };
+
+  for (let attempt = 1; attempt <= Math.max(1, maxAttempts); attempt++) {
+    const id = crypto.randomUUID();
+    const attemptOptions: AICallOptions = { ...options, usage: { ...options.usage, imageId: id } };
+    const result = await provider.generateImage(attemptParams, attemptOptions);
+    const assessment = await provider.assessImageQuality(result.url, attemptOptions);
+    const current: AutoFixAttempt = { id, attempt, params: attemptParams, result, assessment };
+
+    onAttempt(current);
+
+    if (!best || assessment.score > best.assessment.score) {
+      best = current;
+    }
+    if (assessment.microstock_pass) break;
+
+    attemptParams = {
+      ...attemptParams,
+      constraints: buildConstraintsFromIssues(assessment.issues, attemptParams.constraints)
+    };
+  }
+
+  return best!;
+};
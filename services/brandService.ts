@@ -0,0 +1,201 @@
+import { BrandHit, BrandList, BrandSettings, ImageMetadata } from '../types';
+
+const BRANDS_STORAGE_KEY = 'genstudio.brands';
+const EXPORT_FORMAT = 'genstudio.brands';
+
+export const BUILTIN_LIST_NAME = 'Built-in';
+
+// A comprehensive list of banned words for microstock (Brands, trademarks, copyrighted characters)
+export const BUILTIN_BRAND_TERMS = [
+  // Tech
+  "iphone", "ipad", "apple", "macbook", "ios", "airpods",
+  "android", "google", "pixel", "samsung", "galaxy", "windows", "microsoft",
+  "facebook", "instagram", "twitter", "tiktok", "whatsapp", "youtube", "linkedin",
+  "adobe", "photoshop", "illustrator", "zoom", "skype",
+  // Auto
+  "bmw", "mercedes", "audi", "tesla", "ferrari", "porsche", "lamborghini", "toyota", "honda", "ford", "jeep",
+  // Fashion/Retail
+  "nike", "adidas", "puma", "reebok", "gucci", "prada", "louis vuitton", "chanel", "zara", "h&m",
+  // Entertainment/Toys
+  "disney", "marvel", "dc comics", "star wars", "lego", "barbie", "hot wheels", "nerf", "mickey mouse",
+  // Food/Drink
+  "coca-cola", "pepsi", "coke", "mcdonalds", "starbucks", "kfc", "burger king",
+  // Camera Gear
+  "canon", "nikon", "sony", "fujifilm", "leica", "gopro"
+];
+
+// Generic uses of built-in terms that stock keywords need all the time
+const DEFAULT_ALLOWLIST = [
+  "apple tree", "apple pie", "apple juice", "green apple", "red apple",
+  "spiral galaxy", "galaxy background", "pixel art", "zoom in", "zoom out"
+];
+
+export interface BrandImportResult {
+  settings: BrandSettings;
+  added: number;
+  updated: number;
+  allowlisted: number;
+}
+
+export const loadBrandSettings = (): BrandSettings => {
+  try {
+    const stored = localStorage.getItem(BRANDS_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as BrandSettings;
+  } catch (e) {
+    console.warn("Could not read brand lists", e);
+  }
+  return { allowlist: DEFAULT_ALLOWLIST, lists: [] };
+};
+
+export const saveBrandSettings = (settings: BrandSettings): void => {
+  try {
+    localStorage.setItem(BRANDS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not persist brand lists", e);
+  }
+};
+
+/**
+ * Splits pasted or imported text (one term per line, or comma-separated) into unique lowercase terms.
+ */
+export const parseTermList = (text: string): string[] =>
+  Array.from(new Set(
+    text.split(/[,;\r\n]+/).map(term => term.replace(/\s+/g, ' ').trim().toLowerCase()).filter(Boolean)
+  ));
+
+export const createBrandList = (name: string, terms: string[] = []): BrandList => ({
+  id: crypto.randomUUID(),
+  name,
+  terms,
+  enabled: true
+});
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Whole-word pattern for a term. Words may be joined by a space, a hyphen or nothing
+ * ("coca-cola", "coca cola", "cocacola"), a trailing "s" may carry an apostrophe ("mcdonald's"),
+ * and plural or possessive endings are accepted ("nikes", "nike's", "porsches'").
+ */
+const termPattern = (term: string): RegExp => {
+  let pattern = patternCache.get(term);
+  if (!pattern) {
+    const words = term.toLowerCase().split(/[\s-]+/).filter(Boolean).map(escapeRegExp);
+    const core = words.join('[\\s-]?').replace(/(\p{L}{3,})s$/u, "$1['’]?s");
+    pattern = new RegExp(`(?<!${WORD_CHAR})${core}(?:['’]s|s['’]|es|s)?(?!${WORD_CHAR})`, 'giu');
+    patternCache.set(term, pattern);
+  }
+  pattern.lastIndex = 0;
+  return pattern;
+};
+
+const findMatches = (text: string, term: string): { start: number; end: number; text: string }[] =>
+  Array.from(text.matchAll(termPattern(term)), match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    text: match[0]
+  }));
+
+/**
+ * Every banned term found in the title, description and keywords, with the exact text matched.
+ * Matches inside an allowlisted phrase are skipped. Terms come from the built-in list and every
+ * enabled custom list; a term listed twice is reported under the first list.
+ */
+export const findBrandHits = (metadata: ImageMetadata, settings: BrandSettings): BrandHit[] => {
+  const sources: { term: string; list: string }[] = [];
+  const seen = new Set<string>();
+  const lists = [{ name: BUILTIN_LIST_NAME, terms: BUILTIN_BRAND_TERMS }, ...settings.lists.filter(list => list.enabled)];
+  for (const list of lists) {
+    for (const term of list.terms) {
+      const key = term.trim().toLowerCase();
+      if (key && !seen.has(key)) {
+        seen.add(key);
+        sources.push({ term: key, list: list.name });
+      }
+    }
+  }
+
+  const texts: { field: BrandHit['field']; text: string; keyword?: string }[] = [
+    { field: 'title', text: metadata.title },
+    { field: 'description', text: metadata.description },
+    ...metadata.keywords.map(keyword => ({ field: 'keywords' as const, text: keyword, keyword }))
+  ];
+
+  const hits: BrandHit[] = [];
+  for (const { field, text, keyword } of texts) {
+    if (!text) continue;
+    const allowed = settings.allowlist.flatMap(phrase => findMatches(text, phrase));
+    for (const { term, list } of sources) {
+      for (const match of findMatches(text, term)) {
+        if (allowed.some(a => a.start <= match.start && a.end >= match.end)) continue;
+        hits.push({ term, matched: match.text, field, keyword, list });
+      }
+    }
+  }
+  return hits;
+};
+
+export const exportBrandSettings = (settings: BrandSettings): string =>
+  JSON.stringify({
+    format: EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    allowlist: settings.allowlist,
+    lists: settings.lists.map(({ name, terms }) => ({ name, terms }))
+  }, null, 2);
+
+/**
+ * Merges an exported JSON file into `existing`: lists are matched by name and their terms
+ * replaced, and allowlist phrases are added. Any other text file is read as a single list
+ * of terms named after the file. Throws when nothing usable is found.
+ */
+export const importBrandSettings = (text: string, fileName: string, existing: BrandSettings): BrandImportResult => {
+  let incoming: { name: string; terms: string[] }[];
+  let allowlist: string[] = [];
+
+  let parsed: any = null;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    // not JSON: a plain term list
+  }
+
+  if (parsed !== null) {
+    if (parsed?.format !== EXPORT_FORMAT || !Array.isArray(parsed.lists)) {
+      throw new Error("Not a brand list export: expected a genstudio.brands JSON file.");
+    }
+    incoming = parsed.lists
+      .filter((list: any) => typeof list?.name === 'string' && Array.isArray(list.terms))
+      .map((list: any) => ({ name: list.name.trim(), terms: parseTermList(list.terms.join('\n')) }));
+    allowlist = Array.isArray(parsed.allowlist) ? parseTermList(parsed.allowlist.join('\n')) : [];
+  } else {
+    incoming = [{ name: fileName.replace(/\.[^.]+$/, '') || 'Imported list', terms: parseTermList(text) }];
+  }
+
+  incoming = incoming.filter(list => list.name && list.terms.length > 0);
+  if (incoming.length === 0 && allowlist.length === 0) throw new Error("No terms found in the file.");
+
+  let added = 0;
+  let updated = 0;
+  const lists = [...existing.lists];
+  for (const list of incoming) {
+    const index = lists.findIndex(l => l.name.toLowerCase() === list.name.toLowerCase());
+    if (index >= 0) {
+      lists[index] = { ...lists[index], terms: list.terms };
+      updated++;
+    } else {
+      lists.push(createBrandList(list.name, list.terms));
+      added++;
+    }
+  }
+
+  const newPhrases = allowlist.filter(phrase => !existing.allowlist.includes(phrase));
+  return {
+    settings: { allowlist: [...existing.allowlist, ...newPhrases], lists },
+    added,
+    updated,
+    allowlisted: newPhrases.length
+  };
+};
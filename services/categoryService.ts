@@ -0,0 +1,85 @@
+import { ImageMetadata, PlatformCategory, StockPlatform } from '../types';
+import { PLATFORM_CATEGORIES } from '../constants';
+
+// Used when nothing matched and the image is not a photograph
+const GRAPHIC_FALLBACK: Partial<Record<StockPlatform, string>> = {
+  'Adobe Stock': '8', // Graphic Resources
+  'Shutterstock': 'Backgrounds/Textures'
+};
+
+// A second category is only suggested when it scores at least this share of the first
+const SECONDARY_MIN_SHARE = 0.5;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const countTerms = (text: string, terms: string[]): number =>
+  terms.filter(term => new RegExp(`\\b${escapeRegExp(term)}(?:s|es)?\\b`, 'i').test(text)).length;
+
+export const findCategory = (platform: StockPlatform, id: string): PlatformCategory | undefined =>
+  PLATFORM_CATEGORIES[platform]?.categories.find(c => c.id === id);
+
+export const getCategoryLabel = (platform: StockPlatform, id: string): string =>
+  findCategory(platform, id)?.label ?? id;
+
+/**
+ * Categories named verbatim by the free-text category: an Adobe Stock ID such as "3",
+ * or one or more comma-separated category names.
+ */
+const matchCategoryText = (metadata: ImageMetadata, platform: StockPlatform): string[] => {
+  const taxonomy = PLATFORM_CATEGORIES[platform];
+  if (!taxonomy) return [];
+  const ids = metadata.category
+    .split(',')
+    .map(part => part.trim().toLowerCase())
+    .filter(Boolean)
+    .map(part => taxonomy.categories.find(c => c.id.toLowerCase() === part || c.label.toLowerCase() === part)?.id)
+    .filter((id): id is string => !!id);
+  return Array.from(new Set(ids)).slice(0, taxonomy.maxCategories);
+};
+
+/**
+ * Maps the model's free-text category onto the platform taxonomy. A category that already
+ * names a platform category is used as is; otherwise category, title and keywords are scored
+ * against each category's terms (weighted 3/2/1). Returns [] for platforms without categories.
+ */
+export const suggestCategories = (metadata: ImageMetadata, platform: StockPlatform): string[] => {
+  const taxonomy = PLATFORM_CATEGORIES[platform];
+  if (!taxonomy) return [];
+
+  const named = matchCategoryText(metadata, platform);
+  if (named.length > 0) return named;
+
+  const sources: [string, number][] = [
+    [metadata.category, 3],
+    [metadata.title, 2],
+    [metadata.keywords.join(', '), 1]
+  ];
+  const ranked = taxonomy.categories
+    .map(category => ({
+      id: category.id,
+      score: sources.reduce((sum, [text, weight]) => sum + weight * countTerms(text, category.terms), 0)
+    }))
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (ranked.length === 0) {
+    const fallback = GRAPHIC_FALLBACK[platform];
+    return fallback && metadata.contentType !== 'Photography' ? [fallback] : [];
+  }
+  return ranked
+    .filter((entry, i) => i === 0 || entry.score >= ranked[0].score * SECONDARY_MIN_SHARE)
+    .slice(0, taxonomy.maxCategories)
+    .map(entry => entry.id);
+};
+
+/**
+ * The categories that will be submitted: the user's override when set, else the mapped suggestion.
+ */
+export const getPlatformCategories = (metadata: ImageMetadata, platform: StockPlatform): string[] =>
+  metadata.platformCategories?.[platform] ?? suggestCategories(metadata, platform);
+
+/**
+ * True when the free-text category is already a valid category (or list of categories) on the platform.
+ */
+export const isCategoryNative = (metadata: ImageMetadata, platform: StockPlatform): boolean =>
+  matchCategoryText(metadata, platform).length > 0;
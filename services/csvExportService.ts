@@ -0,0 +1,171 @@
+import { GeneratedImage, ImageMetadata, MetadataLanguage, MetadataTranslation, StockPlatform } from '../types';
+import { METADATA_LANGUAGES, PLATFORM_CATEGORIES, STOCK_PLATFORMS } from '../constants';
+import { exportFileName } from './exportService';
+import { getLocalizedFields } from './translationService';
+import { findCategory, getPlatformCategories } from './categoryService';
+
+export interface CsvExportWarning {
+  imageId: string;
+  filename: string;
+  message: string;
+}
+
+export interface CsvExportResult {
+  csv: string;
+  headers: string[];
+  rows: string[][];
+  skipped: GeneratedImage[]; // images without metadata
+  warnings: CsvExportWarning[];
+}
+
+interface RowContext {
+  image: GeneratedImage;
+  metadata: ImageMetadata;
+  fields: MetadataTranslation; // title, description and keywords in the export language
+  filename: string;
+  warn: (message: string) => void;
+}
+
+interface CsvFormat {
+  headers: string[];
+  row: (ctx: RowContext) => string[];
+}
+
+const ILLUSTRATION_TYPES: ImageMetadata['contentType'][] = ['Illustration', 'Vector', '3D Render'];
+
+/**
+ * The image's categories for the platform, minus any the taxonomy does not know, capped at its maximum.
+ */
+const limitCategories = (metadata: ImageMetadata, platform: StockPlatform, warn: (message: string) => void): string[] => {
+  const max = PLATFORM_CATEGORIES[platform]?.maxCategories ?? 0;
+  const ids = getPlatformCategories(metadata, platform);
+  const valid = ids.filter(id => findCategory(platform, id));
+  if (valid.length < ids.length) {
+    warn(`Dropped unknown ${platform} categor${ids.length - valid.length === 1 ? 'y' : 'ies'}: ${ids.filter(id => !valid.includes(id)).join(', ')}.`);
+  }
+  if (valid.length === 0) warn(`No ${platform} category; left empty.`);
+  if (valid.length > max) warn(`Only the first ${max} categories are kept.`);
+  return valid.slice(0, max);
+};
+
+/**
+ * Cuts text to `max` characters, preferring the last word boundary, and reports when it did.
+ */
+const limitText = (text: string, min: number, max: number, label: string, warn: (message: string) => void): string => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length < min) warn(`${label} is shorter than ${min} characters.`);
+  if (clean.length <= max) return clean;
+
+  const cut = clean.slice(0, max);
+  const lastSpace = cut.lastIndexOf(' ');
+  const truncated = (lastSpace > max * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:.-]+$/, '');
+  warn(`${label} truncated from ${clean.length} to ${truncated.length} characters.`);
+  return truncated;
+};
+
+/**
+ * Drops blanks and case-insensitive duplicates, then caps the list at the platform maximum.
+ */
+const limitKeywords = (keywords: string[], min: number, max: number, warn: (message: string) => void): string => {
+  const seen = new Set<string>();
+  const unique = keywords
+    .map(k => k.replace(/,/g, ' ').replace(/\s+/g, ' ').trim())
+    .filter(k => k && !seen.has(k.toLowerCase()) && seen.add(k.toLowerCase()));
+  if (unique.length < min) warn(`Only ${unique.length} keywords; the platform asks for at least ${min}.`);
+  if (unique.length > max) warn(`Keywords cut from ${unique.length} to ${max}.`);
+  return unique.slice(0, max).join(', ');
+};
+
+const formatUsDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getMonth() + 1)}/${pad(date.getDate())}/${date.getFullYear()}`;
+};
+
+const FORMATS: Record<StockPlatform, CsvFormat> = {
+  'Adobe Stock': {
+    headers: ['Filename', 'Title', 'Keywords', 'Category ID', 'Releases'],
+    row: ({ metadata, fields, filename, warn }) => {
+      const rules = STOCK_PLATFORMS['Adobe Stock'];
+      const [categoryId = ''] = limitCategories(metadata, 'Adobe Stock', warn);
+      return [
+        filename,
+        limitText(fields.title, rules.titleLen[0], rules.titleLen[1], 'Title', warn),
+        limitKeywords(fields.keywords, rules.keywords[0], rules.keywords[1], warn),
+        categoryId,
+        ''
+      ];
+    }
+  },
+  'Shutterstock': {
+    headers: ['Filename', 'Description', 'Keywords', 'Categories', 'Editorial', 'Mature', 'Illustration'],
+    row: ({ metadata, fields, filename, warn }) => {
+      const rules = STOCK_PLATFORMS['Shutterstock'];
+      return [
+        filename,
+        // Shutterstock has no separate title; its description doubles as one
+        limitText(fields.description, rules.titleLen[0], rules.titleLen[1], 'Description', warn),
+        limitKeywords(fields.keywords, rules.keywords[0], rules.keywords[1], warn),
+        limitCategories(metadata, 'Shutterstock', warn).join(','),
+        'no',
+        'no',
+        ILLUSTRATION_TYPES.includes(metadata.contentType) ? 'yes' : 'no'
+      ];
+    }
+  },
+  'iStock/Getty': {
+    headers: ['file name', 'created date', 'description', 'country', 'brief code', 'title', 'keywords'],
+    row: ({ image, fields, filename, warn }) => {
+      const rules = STOCK_PLATFORMS['iStock/Getty'];
+      return [
+        filename,
+        formatUsDate(image.timestamp),
+        limitText(fields.description, 0, rules.descriptionMaxLen ?? fields.description.length, 'Description', warn),
+        '',
+        '',
+        limitText(fields.title, rules.titleLen[0], rules.titleLen[1], 'Title', warn),
+        limitKeywords(fields.keywords, rules.keywords[0], rules.keywords[1], warn)
+      ];
+    }
+  }
+};
+
+const escapeCsv = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Builds the platform's upload CSV for the given images. Filenames match `exportFileName`, so
+ * the CSV lines up with JPEGs exported from the same images. Text and keyword limits are applied
+ * here and every cut is reported as a warning. With `language`, translated fields are used and
+ * images without that translation fall back to English with a warning.
+ */
+export const buildPlatformCsv = (images: GeneratedImage[], platform: StockPlatform, language?: MetadataLanguage): CsvExportResult => {
+  const format = FORMATS[platform];
+  const rows: string[][] = [];
+  const skipped: GeneratedImage[] = [];
+  const warnings: CsvExportWarning[] = [];
+
+  for (const image of images) {
+    if (!image.metadata) {
+      skipped.push(image);
+      continue;
+    }
+    const filename = exportFileName(image, 'jpg');
+    const warn = (message: string) => warnings.push({ imageId: image.id, filename, message });
+    if (language && !image.metadata.translations?.[language]) {
+      warn(`No ${METADATA_LANGUAGES[language]} translation; English metadata used.`);
+    }
+    rows.push(format.row({
+      image,
+      metadata: image.metadata,
+      fields: getLocalizedFields(image.metadata, language),
+      filename,
+      warn
+    }));
+  }
+
+  const csv = [format.headers, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+  return { csv, headers: format.headers, rows, skipped, warnings };
+};
+
+export const csvFileName = (platform: StockPlatform, language?: MetadataLanguage): string =>
+  `${platform.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${new Date().toISOString().slice(0, 10)}${language ? `-${language}` : ''}.csv`;
@@ -0,0 +1,242 @@
+export type AIErrorKind = 'auth' | 'quota' | 'safety' | 'malformed' | 'network' | 'cancelled' | 'unknown';
+
+/**
+ * Base class for every failure surfaced by an AI call.
+ * `title` and `hint` are user-facing; `retryable` drives withRetry.
+ */
+export class AIError extends Error {
+  readonly kind: AIErrorKind;
+  readonly retryable: boolean;
+  readonly title: string;
+  readonly hint: string;
+  readonly cause?: unknown;
+
+  constructor(kind: AIErrorKind, message: string, options: { title: string; hint: string; retryable: boolean; cause?: unknown }) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.title = options.title;
+    this.hint = options.hint;
+    this.retryable = options.retryable;
+    this.cause = options.cause;
+  }
+}
+
+export class AuthError extends AIError {
+  constructor(message: string, cause?: unknown) {
+    super('auth', message, {
+      title: 'API key rejected',
+      hint: 'Connect a valid paid Gemini API key, or switch to the Offline Mock provider.',
+      retryable: false,
+      cause
+    });
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends AIError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, cause?: unknown) {
+    super('quota', message, {
+      title: 'Quota or rate limit reached',
+      hint: 'Wait a minute and try again, lower the queue concurrency, or check your billing quota.',
+      retryable: true,
+      cause
+    });
+    this.name = 'QuotaError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SafetyBlockError extends AIError {
+  readonly reason?: string;
+
+  constructor(message: string, reason?: string, cause?: unknown) {
+    super('safety', message, {
+      title: 'Blocked by safety filters',
+      hint: 'Rephrase the prompt to remove sensitive, violent, adult or real-person content and try again.',
+      retryable: false,
+      cause
+    });
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+export class MalformedResponseError extends AIError {
+  constructor(message: string, cause?: unknown) {
+    super('malformed', message, {
+      title: 'Unexpected model response',
+      hint: 'The model returned incomplete or invalid data. Try again; if it persists, simplify the request.',
+      retryable: true,
+      cause
+    });
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class NetworkError extends AIError {
+  constructor(message: string, cause?: unknown) {
+    super('network', message, {
+      title: 'Connection problem',
+      hint: 'The service is unreachable or temporarily overloaded. Check your connection and try again.',
+      retryable: true,
+      cause
+    });
+    this.name = 'NetworkError';
+  }
+}
+
+export class CancelledError extends AIError {
+  constructor(message: string = 'Request was cancelled.', cause?: unknown) {
+    super('cancelled', message, {
+      title: 'Cancelled',
+      hint: 'The request was stopped before it finished.',
+      retryable: false,
+      cause
+    });
+    this.name = 'CancelledError';
+  }
+}
+
+export const isCancelled = (err: unknown): boolean => classifyError(err) instanceof CancelledError;
+
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) throw new CancelledError();
+};
+
+/**
+ * Rejects with CancelledError as soon as `signal` aborts, for clients that cannot take a signal themselves.
+ */
+export const raceWithSignal = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+      err => { signal.removeEventListener('abort', onAbort); reject(err); }
+    );
+  });
+};
+
+const SAFETY_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT', 'RECITATION'];
+
+/**
+ * Throws SafetyBlockError when a Gemini response was blocked instead of answered.
+ */
+export const assertNotBlocked = (response: any): void => {
+  const blockReason = response?.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`Prompt was blocked (${blockReason}).`, blockReason);
+  }
+  const finishReason = response?.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(`Output was blocked (${finishReason}).`, finishReason);
+  }
+};
+
+const parseRetryAfter = (err: any): number | undefined => {
+  const text = String(err?.message || '');
+  const match = text.match(/retry(?:Delay| in| after)["':\s]*([\d.]+)\s*s/i);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Maps any thrown value (SDK ApiError, fetch TypeError, JSON SyntaxError, plain Error) to an AIError.
+ */
+export const classifyError = (err: unknown): AIError => {
+  if (err instanceof AIError) return err;
+
+  const anyErr = err as any;
+  if (anyErr?.name === 'AbortError') {
+    return new CancelledError(undefined, err);
+  }
+
+  const message: string = anyErr?.message ? String(anyErr.message) : String(err);
+  const status: number | undefined = typeof anyErr?.status === 'number' ? anyErr.status : undefined;
+  const text = message.toLowerCase();
+
+  // A status decides on its own: a 429 or 503 that mentions "API key" is still not an auth failure
+  if (status === 401 || status === 403) return new AuthError(message, err);
+  if (status === 429) return new QuotaError(message, parseRetryAfter(err), err);
+  if (status !== undefined && status >= 500) return new NetworkError(message, err);
+
+  // Other statuses (Gemini reports a bad key as 400 INVALID_ARGUMENT) and errors without one go by message
+  if (/api[ _-]?key|permission_denied|unauthenticated|\b40[13]\b/.test(text)) {
+    return new AuthError(message, err);
+  }
+  if (/resource_exhausted|quota|rate limit|too many requests|\b429\b/.test(text)) {
+    return new QuotaError(message, parseRetryAfter(err), err);
+  }
+  if (/safety|blocked|prohibited/.test(text)) {
+    return new SafetyBlockError(message, undefined, err);
+  }
+  if (err instanceof SyntaxError || /no image|no json|no metadata|no assessment|payload|unexpected token/.test(text)) {
+    return new MalformedResponseError(message, err);
+  }
+  if (
+    err instanceof TypeError ||
+    /failed to fetch|network|unavailable|internal|deadline|timed? ?out|econnreset|overloaded|\b50[0234]\b/.test(text)
+  ) {
+    return new NetworkError(message, err);
+  }
+
+  return new AIError('unknown', message, {
+    title: 'Request failed',
+    hint: 'Something went wrong. Try again.',
+    retryable: false,
+    cause: err
+  });
+};
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: AIError, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `fn`, retrying retryable AIErrors with exponential backoff and full jitter.
+ * Non-retryable errors and the last failure are rethrown classified; aborting `signal`
+ * stops any pending retry with CancelledError.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { signal, maxAttempts = 3, baseDelayMs = 1000, maxDelayMs = 16000, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await fn();
+    } catch (err) {
+      const error = signal?.aborted ? new CancelledError(undefined, err) : classifyError(err);
+      if (!error.retryable || attempt >= maxAttempts) throw error;
+
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const jittered = Math.round(Math.random() * backoff);
+      const delayMs = error instanceof QuotaError && error.retryAfterMs
+        ? Math.max(error.retryAfterMs, jittered)
+        : jittered;
+
+      onRetry?.(error, attempt, delayMs);
+      console.warn(`[withRetry] ${error.name}: retrying in ${delayMs}ms (attempt ${attempt + 1}/${maxAttempts})`);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,98 @@
+import { GeneratedImage, MetadataLanguage } from '../types';
+import { CancelledError, throwIfAborted } from './errors';
+import { decodeImageData } from './imageInfoService';
+import { buildIptcSegment, buildXmpSegment } from './jpegMetadata';
+import type { JpegWorkerRequest, JpegWorkerResponse } from './jpeg.worker';
+
+const MAX_FILENAME_STEM = 60;
+const AUTHOR_STORAGE_KEY = 'genstudio.author';
+
+export const loadAuthorName = (): string => {
+  try {
+    return localStorage.getItem(AUTHOR_STORAGE_KEY) ?? '';
+  } catch (e) {
+    console.warn("Could not read author name", e);
+    return '';
+  }
+};
+
+export const saveAuthorName = (name: string): void => {
+  try {
+    localStorage.setItem(AUTHOR_STORAGE_KEY, name);
+  } catch (e) {
+    console.warn("Could not persist author name", e);
+  }
+};
+
+/**
+ * Stable download name: the slugged title (or prompt) plus a short id, e.g. "modern-office-desk-1a2b3c4d.jpg".
+ */
+export const exportFileName = (image: GeneratedImage, extension: string = 'jpg'): string => {
+  const slug = (image.metadata?.title || image.params.prompt || 'image')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip accents left by NFKD
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_FILENAME_STEM)
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'image'}-${image.id.slice(0, 8)}.${extension}`;
+};
+
+const runJpegWorker = (request: JpegWorkerRequest, signal?: AbortSignal): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./jpeg.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(new CancelledError());
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.onmessage = (event: MessageEvent<JpegWorkerResponse>) => {
+      finish();
+      const response = event.data;
+      if ('message' in response) reject(new Error(`JPEG export failed: ${response.message}`));
+      else resolve(response.data);
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(`JPEG export failed: ${event.message || 'worker error'}`));
+    };
+    worker.postMessage(request, [request.data]);
+  });
+
+/**
+ * Encodes the image as a 4:4:4 baseline JPEG at `quality` (1-100) in a Web Worker, with the
+ * image's metadata embedded as XMP (APP1) and IPTC-IIM (APP13) when it has any. `language`
+ * selects which translation is written as the primary title, description and keywords, and
+ * `author` fills the author placeholder (the creator is left out while it is unset).
+ */
+export const exportJpeg = async (image: GeneratedImage, quality: number, signal?: AbortSignal, language?: MetadataLanguage, author?: string): Promise<Blob> => {
+  throwIfAborted(signal);
+  const pixels = await decodeImageData(image.url);
+  throwIfAborted(signal);
+
+  const segments = image.metadata ? [buildXmpSegment(image.metadata, language, author), buildIptcSegment(image.metadata, language, author)] : [];
+  const jpeg = await runJpegWorker({
+    width: pixels.width,
+    height: pixels.height,
+    data: pixels.data.buffer as ArrayBuffer,
+    quality,
+    segments
+  }, signal);
+  return new Blob([jpeg], { type: 'image/jpeg' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
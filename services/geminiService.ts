@@ -1,7 +1,16 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { GenerationParams, StylePreset, ImageMetadata, QualityAssessment } from "../types";
-import { MICROSTOCK_ENHANCERS } from "../constants";
+import { GoogleGenAI, Type, GenerateContentResponse } from "@google/genai";
+import { GenerationParams, ImageMetadata, QualityAssessment, AIProvider, ImageEditRequest, GenerationResult, AICallOptions, EnhanceStrategy, MetadataLanguage, MetadataTranslations } from "../types";
+import { MICROSTOCK_ENHANCERS, REFERENCE_ROLE_INSTRUCTIONS, ENHANCE_STRATEGY_INSTRUCTIONS, METADATA_LANGUAGES } from "../constants";
+import { withRetry, classifyError, assertNotBlocked, MalformedResponseError } from "./errors";
+import { reportUsage } from "./usageService";
+import { getStyleFragment, getStyleLabel } from "./stylePresetService";
+import { parseTranslations } from "./translationService";
+
+// Using gemini-3-pro-image-preview as it supports 4K (High Quality) and is the SOTA image model.
+const IMAGE_MODEL = 'gemini-3-pro-image-preview';
+
+const randomSeed = (): number => Math.floor(Math.random() * 2147483647);
 
 /**
  * Enhances the user prompt based on selected style and microstock optimization.
@@ -9,17 +18,68 @@ import { MICROSTOCK_ENHANCERS } from "../constants";
 const buildEnhancedPrompt = (params: GenerationParams): string => {
   let finalPrompt = params.prompt;
 
-  if (params.style !== StylePreset.NONE) {
-    finalPrompt += `, ${params.style} style`;
+  const styleFragment = getStyleFragment(params);
+  if (styleFragment) {
+    finalPrompt += `, ${styleFragment}`;
   }
 
   if (params.optimizeForMicrostock) {
     finalPrompt += `, ${MICROSTOCK_ENHANCERS}`;
   }
 
+  if (params.constraints && params.constraints.length > 0) {
+    finalPrompt += `. Strict requirements: ${params.constraints.join('; ')}`;
+  }
+
   return finalPrompt;
 };
 
+/**
+ * Gemini image models have no dedicated negative-prompt field, so exclusions
+ * are sent as a separate instruction part next to the prompt.
+ */
+const buildNegativePromptPart = (params: GenerationParams): string | null => {
+  const negative = params.negativePrompt?.trim();
+  if (!negative) return null;
+  return `Do NOT include any of the following in the image: ${negative}.`;
+};
+
+/**
+ * Turns attached reference images into inline image parts, each preceded by its role instruction.
+ */
+const buildReferenceParts = (params: GenerationParams): any[] => {
+  const parts: any[] = [];
+  (params.referenceImages || []).forEach((ref, index) => {
+    parts.push({ text: `Reference image ${index + 1} (${ref.role.toLowerCase()}): ${REFERENCE_ROLE_INSTRUCTIONS[ref.role]}` });
+    parts.push({
+      inlineData: {
+        mimeType: ref.mimeType,
+        data: ref.url.split(',')[1] || ref.url
+      }
+    });
+  });
+  return parts;
+};
+
+/**
+ * Returns the first inline image of a response as a data URL.
+ */
+const extractImageDataUrl = (response: GenerateContentResponse): string => {
+  assertNotBlocked(response);
+
+  // Iterate through parts to find the image
+  if (response.candidates && response.candidates[0] && response.candidates[0].content && response.candidates[0].content.parts) {
+    for (const part of response.candidates[0].content.parts) {
+      if (part.inlineData) {
+        const base64EncodeString: string = part.inlineData.data;
+        return `data:image/png;base64,${base64EncodeString}`;
+      }
+    }
+  }
+
+  throw new MalformedResponseError("No image data found in response");
+};
+
 export const checkApiKey = async (): Promise<boolean> => {
   const win = window as any;
   if (win.aistudio && win.aistudio.hasSelectedApiKey) {
@@ -37,46 +97,115 @@ export const promptForApiKey = async (): Promise<void> => {
   }
 };
 
-export const generateImage = async (params: GenerationParams): Promise<string> => {
+export const generateImage = async (params: GenerationParams, options: AICallOptions = {}): Promise<GenerationResult> => {
   // CRITICAL: Initialize the client right before the call to capture the injected key.
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
   const enhancedPrompt = buildEnhancedPrompt(params);
+  const negativePrompt = buildNegativePromptPart(params);
+
+  const parts: any[] = [...buildReferenceParts(params), { text: enhancedPrompt }];
+  if (negativePrompt) {
+    parts.push({ text: negativePrompt });
+  }
+
+  // Always send a seed so the image can be reproduced later
+  const config = {
+    imageConfig: {
+      aspectRatio: params.aspectRatio,
+      imageSize: params.quality, // 1K, 2K, or 4K
+    },
+    seed: params.seed ?? randomSeed(),
+  };
 
   try {
-    // Using gemini-3-pro-image-preview as it supports 4K (High Quality) and is the SOTA image model.
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [
-          {
-            text: enhancedPrompt,
-          },
-        ],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: params.aspectRatio,
-          imageSize: params.quality, // 1K, 2K, or 4K
+    return await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+          parts,
         },
-      },
-    });
+        config: { ...config, abortSignal: options.signal },
+      });
+      reportUsage(options, IMAGE_MODEL, response.usageMetadata);
 
-    // Iterate through parts to find the image
-    if (response.candidates && response.candidates[0] && response.candidates[0].content && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-          const base64EncodeString: string = part.inlineData.data;
-          return `data:image/png;base64,${base64EncodeString}`;
+      return {
+        url: extractImageDataUrl(response),
+        provenance: {
+          providerId: 'gemini',
+          model: IMAGE_MODEL,
+          effectivePrompt: [enhancedPrompt, negativePrompt].filter(Boolean).join('\n'),
+          seed: config.seed,
+          config
         }
-      }
-    }
+      };
+    }, { signal: options.signal });
+  } catch (error) {
+    console.error("Generation failed:", error);
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Edits only the masked region of an existing image (inpainting).
+ * The mask is sent as a second image where white marks the area to change.
+ */
+export const editImage = async (request: ImageEditRequest, options: AICallOptions = {}): Promise<GenerationResult> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-    throw new Error("No image data found in response");
+  const imageMimeType = request.imageUrl.match(/^data:([^;]+);/)?.[1] || "image/png";
+  const instruction = `Apply this edit ONLY inside the white mask region: ${request.instruction}.
+            Keep everything outside the mask pixel-identical, and blend the edited area seamlessly with its surroundings.`;
 
+  const config = {
+    imageConfig: {
+      aspectRatio: request.params.aspectRatio,
+      imageSize: request.params.quality,
+    },
+    seed: request.params.seed ?? randomSeed(),
+  };
+
+  try {
+    return await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+          parts: [
+            { text: "Image to edit:" },
+            {
+              inlineData: {
+                mimeType: imageMimeType,
+                data: request.imageUrl.split(',')[1] || request.imageUrl
+              }
+            },
+            { text: "Edit mask (white = region to change, black = keep exactly as is):" },
+            {
+              inlineData: {
+                mimeType: "image/png",
+                data: request.maskUrl.split(',')[1] || request.maskUrl
+              }
+            },
+            { text: instruction }
+          ],
+        },
+        config: { ...config, abortSignal: options.signal },
+      });
+      reportUsage(options, IMAGE_MODEL, response.usageMetadata);
+
+      return {
+        url: extractImageDataUrl(response),
+        provenance: {
+          providerId: 'gemini',
+          model: IMAGE_MODEL,
+          effectivePrompt: instruction,
+          seed: config.seed,
+          config
+        }
+      };
+    }, { signal: options.signal });
   } catch (error) {
-    console.error("Generation failed:", error);
-    throw error;
+    console.error("Image edit failed:", error);
+    throw classifyError(error);
   }
 };
 
@@ -84,7 +213,7 @@ export const generateImage = async (params: GenerationParams): Promise<string> =
  * Generates microstock-optimized metadata using Gemini.
  * Uses vision (Gemini 2.5 Flash) if image is provided, otherwise uses text-only (Flash Lite).
  */
-export const generateMetadata = async (params: GenerationParams, imageBase64?: string): Promise<ImageMetadata> => {
+export const generateMetadata = async (params: GenerationParams, imageBase64?: string, options: AICallOptions = {}): Promise<ImageMetadata> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
   // If we have an image, use Gemini 2.5 Flash for Vision understanding
@@ -128,65 +257,70 @@ export const generateMetadata = async (params: GenerationParams, imageBase64?: s
   parts.push({ 
     text: `Generate metadata for this image.
     Original Prompt: "${params.prompt}".
-    Style: ${params.style}.
+    Style: ${getStyleLabel(params)}.
     
     Ensure keyword count is between 30 and 50. Remove duplicates.` 
   });
 
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: { parts },
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            title: { type: Type.STRING },
-            description: { type: Type.STRING },
-            keywords: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING },
-              description: "Combined list of all keywords (30-50 items)" 
-            },
-            keywordAnalysis: {
-              type: Type.OBJECT,
-              properties: {
-                broad: { type: Type.ARRAY, items: { type: Type.STRING } },
-                medium: { type: Type.ARRAY, items: { type: Type.STRING } },
-                niche: { type: Type.ARRAY, items: { type: Type.STRING } },
-                trending: { type: Type.ARRAY, items: { type: Type.STRING } }
+    return await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+          abortSignal: options.signal,
+          systemInstruction: systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              description: { type: Type.STRING },
+              keywords: { 
+                type: Type.ARRAY, 
+                items: { type: Type.STRING },
+                description: "Combined list of all keywords (30-50 items)" 
               },
-              required: ["broad", "medium", "niche", "trending"]
-            },
-            category: { type: Type.STRING },
-            contentType: { 
-              type: Type.STRING, 
-              enum: ["Photography", "Illustration", "3D Render", "Vector"] 
+              keywordAnalysis: {
+                type: Type.OBJECT,
+                properties: {
+                  broad: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  medium: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  niche: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  trending: { type: Type.ARRAY, items: { type: Type.STRING } }
+                },
+                required: ["broad", "medium", "niche", "trending"]
+              },
+              category: { type: Type.STRING },
+              contentType: { 
+                type: Type.STRING, 
+                enum: ["Photography", "Illustration", "3D Render", "Vector"] 
+              },
+              author: { type: Type.STRING },
+              isAI: { type: Type.BOOLEAN }
             },
-            author: { type: Type.STRING },
-            isAI: { type: Type.BOOLEAN }
-          },
-          required: ["title", "description", "keywords", "keywordAnalysis", "category", "contentType", "author", "isAI"]
+            required: ["title", "description", "keywords", "keywordAnalysis", "category", "contentType", "author", "isAI"]
+          }
         }
-      }
-    });
+      });
+      reportUsage(options, model, response.usageMetadata);
 
-    const text = response.text;
-    if (!text) throw new Error("No metadata generated");
-    
-    return JSON.parse(text) as ImageMetadata;
+      assertNotBlocked(response);
+      const text = response.text;
+      if (!text) throw new MalformedResponseError("No metadata generated");
+
+      return JSON.parse(text) as ImageMetadata;
+    }, { signal: options.signal });
   } catch (error) {
     console.error("Metadata generation failed:", error);
-    throw error;
+    throw classifyError(error);
   }
 };
 
 /**
  * Analyzes an image for microstock quality compliance using Vision.
  */
-export const assessImageQuality = async (imageBase64: string): Promise<QualityAssessment> => {
+export const assessImageQuality = async (imageBase64: string, options: AICallOptions = {}): Promise<QualityAssessment> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   const model = "gemini-2.5-flash"; // Vision-capable model
 
@@ -216,43 +350,169 @@ export const assessImageQuality = async (imageBase64: string): Promise<QualityAs
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/png",
-              data: base64Data
-            }
-          },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.INTEGER, description: "Quality score 0-100" },
-            issues: { type: Type.ARRAY, items: { type: Type.STRING }, description: "List of specific defects found" },
-            explanation: { type: Type.STRING, description: "Summary of why it passed or failed" },
-            microstock_pass: { type: Type.BOOLEAN, description: "True if score >= 80" }
-          },
-          required: ["score", "issues", "explanation", "microstock_pass"]
+    return await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            {
+              inlineData: {
+                mimeType: "image/png",
+                data: base64Data
+              }
+            },
+            { text: prompt }
+          ]
+        },
+        config: {
+          abortSignal: options.signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              score: { type: Type.INTEGER, description: "Quality score 0-100" },
+              issues: { type: Type.ARRAY, items: { type: Type.STRING }, description: "List of specific defects found" },
+              explanation: { type: Type.STRING, description: "Summary of why it passed or failed" },
+              microstock_pass: { type: Type.BOOLEAN, description: "True if score >= 80" }
+            },
+            required: ["score", "issues", "explanation", "microstock_pass"]
+          }
         }
-      }
-    });
+      });
+      reportUsage(options, model, response.usageMetadata);
 
-    const text = response.text;
-    if (!text) throw new Error("No assessment generated");
-
-    const assessment = JSON.parse(text) as QualityAssessment;
-    assessment.timestamp = Date.now();
-    return assessment;
+      assertNotBlocked(response);
+      const text = response.text;
+      if (!text) throw new MalformedResponseError("No assessment generated");
 
+      const assessment = JSON.parse(text) as QualityAssessment;
+      assessment.timestamp = Date.now();
+      return assessment;
+    }, { signal: options.signal });
   } catch (error) {
     console.error("Quality assessment failed:", error);
-    throw error;
+    throw classifyError(error);
   }
 };
+
+/**
+ * Rewrites a draft prompt into a detailed, stock-friendly prompt for the chosen strategy.
+ */
+export const enhancePrompt = async (prompt: string, strategy: EnhanceStrategy, options: AICallOptions = {}): Promise<string> => {
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const model = "gemini-2.5-flash";
+
+  const systemInstruction = `You are a prompt engineer for commercial microstock image generation.
+  Rewrite the user's draft into one detailed image prompt (60-120 words) that sells well on Adobe Stock and Shutterstock.
+
+  STRATEGY (${strategy}): ${ENHANCE_STRATEGY_INSTRUCTIONS[strategy]}
+
+  RULES:
+  - Keep the user's subject and intent.
+  - Describe subject, setting, composition, lighting, camera/lens and mood.
+  - Never mention brands, logos, trademarks, copyrighted characters, real people or legible text.
+  - Return ONLY the rewritten prompt, no quotes or commentary.
+  `;
+
+  try {
+    return await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: { parts: [{ text: prompt }] },
+        config: {
+          abortSignal: options.signal,
+          systemInstruction
+        }
+      });
+      reportUsage(options, model, response.usageMetadata);
+
+      assertNotBlocked(response);
+      const text = response.text?.trim().replace(/^["']|["']$/g, "");
+      if (!text) throw new MalformedResponseError("No enhanced prompt generated");
+      return text;
+    }, { signal: options.signal });
+  } catch (error) {
+    console.error("Prompt enhancement failed:", error);
+    throw classifyError(error);
+  }
+};
+
+/**
+ * Translates the English title, description and keywords into each target language in one call.
+ */
+export const translateMetadata = async (metadata: ImageMetadata, languages: MetadataLanguage[], options: AICallOptions = {}): Promise<MetadataTranslations> => {
+  if (languages.length === 0) return {};
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const model = "gemini-2.5-flash";
+
+  const systemInstruction = `You are a professional microstock metadata translator.
+  Translate stock image metadata into each requested language the way native buyers search for it.
+
+  RULES:
+  - Return one entry per language, using its ISO 639-1 code.
+  - Title and description: natural, idiomatic translations of the same length; do not add claims.
+  - Keywords: search terms native speakers would use, not word-for-word. Keep the same order of importance.
+    Drop keywords with no sensible equivalent and never add duplicates.
+  - Never add brands, trademarks or real people.
+  `;
+
+  const targets = languages.map(lang => `${lang} (${METADATA_LANGUAGES[lang]})`).join(', ');
+
+  try {
+    return await withRetry(async () => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [{
+            text: `Target languages: ${targets}
+    Title: ${metadata.title}
+    Description: ${metadata.description}
+    Keywords: ${metadata.keywords.join(', ')}`
+          }]
+        },
+        config: {
+          abortSignal: options.signal,
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                language: { type: Type.STRING, enum: languages },
+                title: { type: Type.STRING },
+                description: { type: Type.STRING },
+                keywords: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ["language", "title", "description", "keywords"]
+            }
+          }
+        }
+      });
+      reportUsage(options, model, response.usageMetadata);
+
+      assertNotBlocked(response);
+      const text = response.text;
+      if (!text) throw new MalformedResponseError("No translation generated");
+      return parseTranslations(JSON.parse(text), languages);
+    }, { signal: options.signal });
+  } catch (error) {
+    console.error("Metadata translation failed:", error);
+    throw classifyError(error);
+  }
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini API',
+  description: 'Direct @google/genai calls using the configured API key.',
+  imageModel: IMAGE_MODEL,
+  checkApiKey,
+  promptForApiKey,
+  generateImage,
+  editImage,
+  generateMetadata,
+  assessImageQuality,
+  enhancePrompt,
+  translateMetadata
+};
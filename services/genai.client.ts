@@ -6,11 +6,38 @@
 
 import {
   GenerationParams,
-  StylePreset,
   ImageMetadata,
   QualityAssessment,
+  AIProvider,
+  ImageEditRequest,
+  GenerationResult,
+  AICallOptions,
+  EnhanceStrategy,
+  MetadataLanguage,
+  MetadataTranslations,
 } from "../types";
-import { MICROSTOCK_ENHANCERS } from "../constants";
+import {
+  MICROSTOCK_ENHANCERS,
+  REFERENCE_ROLE_INSTRUCTIONS,
+  ENHANCE_STRATEGY_INSTRUCTIONS,
+  METADATA_LANGUAGES,
+} from "../constants";
+import {
+  withRetry,
+  raceWithSignal,
+  classifyError,
+  assertNotBlocked,
+  MalformedResponseError,
+} from "./errors";
+import { reportUsage } from "./usageService";
+import { getStyleFragment, getStyleLabel } from "./stylePresetService";
+import { parseTranslations } from "./translationService";
+
+// Model choice: prefer a vision/image-capable model available in the environment.
+// Do not hardcode billing. The environment / embed controls the allowed model & quotas.
+const IMAGE_MODEL = "gemini-3-pro-image-preview";
+
+const randomSeed = (): number => Math.floor(Math.random() * 2147483647);
 
 /**
  * Helper: get injected AI client from Google AI Studio embed.
@@ -45,8 +72,9 @@ function getInjectedAI() {
 export const buildEnhancedPrompt = (params: GenerationParams): string => {
   let finalPrompt = (params.prompt || "").trim();
 
-  if (params.style && params.style !== StylePreset.NONE) {
-    finalPrompt += `, ${params.style} style`;
+  const styleFragment = getStyleFragment(params);
+  if (styleFragment) {
+    finalPrompt += `, ${styleFragment}`;
   }
 
   if (params.optimizeForMicrostock) {
@@ -57,9 +85,44 @@ export const buildEnhancedPrompt = (params: GenerationParams): string => {
     finalPrompt += `, ${enh}`;
   }
 
+  if (params.constraints && params.constraints.length > 0) {
+    finalPrompt += `. Strict requirements: ${params.constraints.join("; ")}`;
+  }
+
   return finalPrompt;
 };
 
+/**
+ * Build the exclusion instruction sent alongside the prompt.
+ * The embed SDK has no negative-prompt field for Gemini image models, so it is a text part.
+ */
+export const buildNegativePromptPart = (
+  params: GenerationParams
+): string | null => {
+  const negative = (params.negativePrompt || "").trim();
+  if (!negative) return null;
+  return `Do NOT include any of the following in the image: ${negative}.`;
+};
+
+/**
+ * Build inline image parts for reference images, each preceded by its role instruction.
+ */
+export const buildReferenceParts = (params: GenerationParams): any[] => {
+  const parts: any[] = [];
+  (params.referenceImages || []).forEach((ref, index) => {
+    parts.push({
+      text: `Reference image ${index + 1} (${ref.role.toLowerCase()}): ${REFERENCE_ROLE_INSTRUCTIONS[ref.role]}`,
+    });
+    parts.push({
+      inlineData: {
+        mimeType: ref.mimeType,
+        data: ref.url.replace(/^data:image\/[a-zA-Z]+;base64,/, ""),
+      },
+    });
+  });
+  return parts;
+};
+
 /**
  * Ask the embed UI if there's a selected API key (returns boolean).
  * This uses the aistudio helper if available; otherwise returns false.
@@ -103,6 +166,30 @@ export const promptForApiKey = async (): Promise<void> => {
   }
 };
 
+/**
+ * Call the injected client; some SDK shapes expose `generateContent` on a model
+ * handle, others directly on the client, others only `generate`.
+ * The injected client takes no abort signal, so cancellation only stops waiting for it.
+ */
+async function invokeModel(
+  ai: any,
+  modelName: string,
+  payload: any,
+  signal?: AbortSignal
+): Promise<any> {
+  const model = ai.getGenerativeModel
+    ? ai.getGenerativeModel({ model: modelName })
+    : ai;
+  if (model.generateContent)
+    return raceWithSignal(model.generateContent(payload), signal);
+  if (ai.generateContent)
+    return raceWithSignal(ai.generateContent(payload), signal);
+  if (model.generate) return raceWithSignal(model.generate(payload), signal);
+  throw new Error(
+    "Injected AI client does not support generateContent/generate APIs."
+  );
+}
+
 /**
  * Robust extractor for base64 image data from a variety of Google AI Studio response shapes.
  * Accepts object returned by model.generateContent() and returns base64 string (no data: prefix) or null.
@@ -169,22 +256,50 @@ function extractBase64FromResponse(resp: any): string | null {
   return null;
 }
 
+/**
+ * Extract the image from a response as a data-url, including the JSON-in-text fallback.
+ */
+function extractImageDataUrl(response: any): string {
+  assertNotBlocked(response);
+  const b64 = extractBase64FromResponse(response);
+  if (b64) return `data:image/png;base64,${b64}`;
+
+  // If response has `outputText` and contains JSON, parse it
+  const altText = response?.outputText || response?.text;
+  if (altText) {
+    try {
+      const parsed = typeof altText === "string" ? JSON.parse(altText) : altText;
+      const pb64 = extractBase64FromResponse(parsed);
+      if (pb64) return `data:image/png;base64,${pb64}`;
+    } catch (_) {
+      // ignore
+    }
+  }
+  throw new MalformedResponseError("No image payload found in AI response");
+}
+
 /**
  * Generate image using injected Google AI client.
- * Returns a data-url string: "data:image/png;base64,...."
+ * Returns the data-url ("data:image/png;base64,....") plus the provenance needed to reproduce it.
  *
  * NOTE: This runs on browser (client). For server-side generation (service account),
  * create a separate server-side module and call Google AI Studio server APIs there.
  */
 export const generateImage = async (
-  params: GenerationParams
-): Promise<string> => {
+  params: GenerationParams,
+  options: AICallOptions = {}
+): Promise<GenerationResult> => {
   const ai = getInjectedAI();
-  // Model choice: prefer a vision/image-capable model available in the environment.
-  // Do not hardcode billing. The environment / embed controls the allowed model & quotas.
-  const modelName = params.modelName || "gemini-3-pro-image-preview";
+  const modelName = IMAGE_MODEL;
 
   const enhancedPrompt = buildEnhancedPrompt(params);
+  const negativePrompt = buildNegativePromptPart(params);
+
+  const parts: any[] = [
+    ...buildReferenceParts(params),
+    { text: enhancedPrompt },
+  ];
+  if (negativePrompt) parts.push({ text: negativePrompt });
 
   // Build contents array compatible with several SDK shapes
   const payload = {
@@ -192,63 +307,136 @@ export const generateImage = async (
     contents: [
       {
         role: "user",
-        parts: [{ text: enhancedPrompt }],
+        parts,
       },
     ],
     // generation config: follow common property names; embed only non-sensitive options
     generationConfig: {
       image: {
-        // Accept either explicit size or quality token
-        size: params.imageSize || params.quality || "2048x2048",
+        // Quality token (1K, 2K or 4K)
+        size: params.quality || "2K",
         aspectRatio: params.aspectRatio || undefined,
       },
+      seed: params.seed ?? randomSeed(),
       // other optional safe flags may go here
     },
   };
 
   try {
-    // call generate; some injected SDKs expose `generateContent` or `generate`
-    const model = ai.getGenerativeModel
-      ? ai.getGenerativeModel({ model: modelName })
-      : ai;
-    // Choose method that exists
-    let response: any;
-    if (model.generateContent) {
-      response = await model.generateContent(payload);
-    } else if (ai.generateContent) {
-      response = await ai.generateContent(payload);
-    } else if (model.generate) {
-      response = await model.generate(payload);
-    } else {
-      throw new Error(
-        "Injected AI client does not support generateContent/generate APIs."
+    return await withRetry(async () => {
+      const response = await invokeModel(
+        ai,
+        modelName,
+        payload,
+        options.signal
       );
-    }
-
-    // Try to extract base64 from response
-    const b64 = extractBase64FromResponse(response);
-    if (!b64) {
-      // If response has `outputText` and contains JSON, parse it
-      const altText = response?.outputText || response?.text;
-      if (altText) {
-        try {
-          const parsed =
-            typeof altText === "string" ? JSON.parse(altText) : altText;
-          const pb64 = extractBase64FromResponse(parsed);
-          if (pb64) return `data:image/png;base64,${pb64}`;
-        } catch (_) {
-          // ignore
-        }
-      }
-      throw new Error("No image payload found in AI response");
-    }
-
-    // return data-url
-    return `data:image/png;base64,${b64}`;
+      reportUsage(
+        options,
+        modelName,
+        response?.usageMetadata ?? response?.response?.usageMetadata
+      );
+      return {
+        url: extractImageDataUrl(response),
+        provenance: {
+          providerId: "aistudio",
+          model: modelName,
+          effectivePrompt: [enhancedPrompt, negativePrompt]
+            .filter(Boolean)
+            .join("\n"),
+          seed: payload.generationConfig.seed,
+          config: payload.generationConfig,
+        },
+      };
+    }, { signal: options.signal });
   } catch (err) {
     // Normalize error for caller
     console.error("[generateImage] failed:", err);
-    throw err;
+    throw classifyError(err);
+  }
+};
+
+/**
+ * Edit only the masked region of an image (inpainting) using the injected client.
+ * The mask is a PNG where white marks the region to change.
+ * Returns the edited image with its provenance.
+ */
+export const editImage = async (
+  request: ImageEditRequest,
+  options: AICallOptions = {}
+): Promise<GenerationResult> => {
+  const ai = getInjectedAI();
+  const modelName = IMAGE_MODEL;
+
+  const imageMimeType =
+    request.imageUrl.match(/^data:([^;]+);/)?.[1] || "image/png";
+  const instruction = `Apply this edit ONLY inside the white mask region: ${request.instruction}.
+Keep everything outside the mask pixel-identical, and blend the edited area seamlessly with its surroundings.`;
+
+  const payload = {
+    model: modelName,
+    contents: [
+      {
+        role: "user",
+        parts: [
+          { text: "Image to edit:" },
+          {
+            inlineData: {
+              mimeType: imageMimeType,
+              data: request.imageUrl.replace(
+                /^data:image\/[a-zA-Z]+;base64,/,
+                ""
+              ),
+            },
+          },
+          {
+            text: "Edit mask (white = region to change, black = keep exactly as is):",
+          },
+          {
+            inlineData: {
+              mimeType: "image/png",
+              data: request.maskUrl.replace(/^data:image\/[a-zA-Z]+;base64,/, ""),
+            },
+          },
+          { text: instruction },
+        ],
+      },
+    ],
+    generationConfig: {
+      image: {
+        size: request.params.quality || "2K",
+        aspectRatio: request.params.aspectRatio || undefined,
+      },
+      seed: request.params.seed ?? randomSeed(),
+    },
+  };
+
+  try {
+    return await withRetry(async () => {
+      const response = await invokeModel(
+        ai,
+        modelName,
+        payload,
+        options.signal
+      );
+      reportUsage(
+        options,
+        modelName,
+        response?.usageMetadata ?? response?.response?.usageMetadata
+      );
+      return {
+        url: extractImageDataUrl(response),
+        provenance: {
+          providerId: "aistudio",
+          model: modelName,
+          effectivePrompt: instruction,
+          seed: payload.generationConfig.seed,
+          config: payload.generationConfig,
+        },
+      };
+    }, { signal: options.signal });
+  } catch (err) {
+    console.error("[editImage] failed:", err);
+    throw classifyError(err);
   }
 };
 
@@ -258,7 +446,8 @@ export const generateImage = async (
  */
 export const generateMetadata = async (
   params: GenerationParams,
-  imageBase64?: string
+  imageBase64?: string,
+  options: AICallOptions = {}
 ): Promise<ImageMetadata> => {
   const ai = getInjectedAI();
 
@@ -298,8 +487,8 @@ Return ONLY a single JSON object that matches the schema. Do NOT include extra c
   parts.push({
     text: `Generate metadata for:
 Original Prompt: "${params.prompt}"
-Style: ${params.style || "default"}
-Author: ${params.author || "{{author}}"}
+Style: ${getStyleLabel(params) || "default"}
+Author: {{author}}
 Ensure keywords count 30-50 (unique). Remove duplicates. Output JSON only.`,
   });
 
@@ -317,79 +506,78 @@ Ensure keywords count 30-50 (unique). Remove duplicates. Output JSON only.`,
   };
 
   try {
-    const model = ai.getGenerativeModel
-      ? ai.getGenerativeModel({ model: modelName })
-      : ai;
-    let response: any;
-    if (model.generateContent) {
-      response = await model.generateContent(payload);
-    } else if (ai.generateContent) {
-      response = await ai.generateContent(payload);
-    } else if (model.generate) {
-      response = await model.generate(payload);
-    } else {
-      throw new Error(
-        "Injected AI client does not support generateContent/generate APIs."
+    return await withRetry(async () => {
+      const response = await invokeModel(
+        ai,
+        modelName,
+        payload,
+        options.signal
+      );
+      reportUsage(
+        options,
+        modelName,
+        response?.usageMetadata ?? response?.response?.usageMetadata
       );
-    }
 
-    // Attempt to extract text/json
-    const rawText =
-      response?.outputText ||
-      response?.text ||
-      response?.response ||
-      (response?.candidates &&
-        response.candidates[0]?.content?.parts?.find((p: any) => p.text)?.text);
-    let parsed: any = null;
-    if (rawText) {
-      try {
-        parsed = typeof rawText === "string" ? JSON.parse(rawText) : rawText;
-      } catch (e) {
-        // sometimes model returns JSON in candidates -> try locate JSON-like string
-        const candidate = response?.candidates?.[0]?.content?.parts?.find(
-          (p: any) =>
-            typeof p.text === "string" && p.text.trim().startsWith("{")
-        );
-        if (candidate && candidate.text) {
-          try {
-            parsed = JSON.parse(candidate.text);
-          } catch {}
+      // Attempt to extract text/json
+      const rawText =
+        response?.outputText ||
+        response?.text ||
+        response?.response ||
+        (response?.candidates &&
+          response.candidates[0]?.content?.parts?.find((p: any) => p.text)?.text);
+      let parsed: any = null;
+      if (rawText) {
+        try {
+          parsed = typeof rawText === "string" ? JSON.parse(rawText) : rawText;
+        } catch (e) {
+          // sometimes model returns JSON in candidates -> try locate JSON-like string
+          const candidate = response?.candidates?.[0]?.content?.parts?.find(
+            (p: any) =>
+              typeof p.text === "string" && p.text.trim().startsWith("{")
+          );
+          if (candidate && candidate.text) {
+            try {
+              parsed = JSON.parse(candidate.text);
+            } catch {}
+          }
         }
       }
-    }
-
-    if (!parsed) {
-      // fallback: ask model to produce JSON explicitly (could be a second round)
-      throw new Error(
-        "Metadata generation: no JSON payload found in AI response."
-      );
-    }
 
-    // Minimal sanitization: ensure keywords array and counts
-    if (!Array.isArray(parsed.keywords))
-      parsed.keywords = Array.isArray(parsed.keywordAnalysis?.broad)
-        ? [
-            ...(parsed.keywordAnalysis?.broad || []),
-            ...(parsed.keywordAnalysis?.medium || []),
-            ...(parsed.keywordAnalysis?.niche || []),
-          ]
-        : typeof parsed.keywords === "string"
-        ? parsed.keywords.split(",").map((k: string) => k.trim())
-        : [];
-
-    // dedupe
-    parsed.keywords = Array.from(new Set(parsed.keywords)).slice(0, 50);
-
-    // fill defaults
-    parsed.title = (parsed.title || "").toString().slice(0, 140);
-    parsed.description = (parsed.description || "").toString();
-    parsed.author = parsed.author || params.author || "{{author}}";
-    parsed.isAI = parsed.isAI === true || parsed.isAI === "true";
+      if (!parsed) {
+        // fallback: ask model to produce JSON explicitly (could be a second round)
+        assertNotBlocked(response);
+        throw new MalformedResponseError(
+          "Metadata generation: no JSON payload found in AI response."
+        );
+      }
 
-    return parsed as ImageMetadata;
+      // Minimal sanitization: ensure keywords array and counts
+      if (!Array.isArray(parsed.keywords))
+        parsed.keywords = Array.isArray(parsed.keywordAnalysis?.broad)
+          ? [
+              ...(parsed.keywordAnalysis?.broad || []),
+              ...(parsed.keywordAnalysis?.medium || []),
+              ...(parsed.keywordAnalysis?.niche || []),
+            ]
+          : typeof parsed.keywords === "string"
+          ? parsed.keywords.split(",").map((k: string) => k.trim())
+          : [];
+
+      // dedupe
+      parsed.keywords = Array.from(new Set(parsed.keywords)).slice(0, 50);
+
+      // fill defaults
+      parsed.title = (parsed.title || "").toString().slice(0, 140);
+      parsed.description = (parsed.description || "").toString();
+      parsed.author = parsed.author || "{{author}}";
+      parsed.isAI = parsed.isAI === true || parsed.isAI === "true";
+
+      return parsed as ImageMetadata;
+    }, { signal: options.signal });
   } catch (err) {
     console.error("[generateMetadata] failed:", err);
-    throw err;
+    throw classifyError(err);
   }
 };
 
@@ -398,7 +586,8 @@ Ensure keywords count 30-50 (unique). Remove duplicates. Output JSON only.`,
  * Returns QualityAssessment with score, issues[], explanation, microstock_pass boolean.
  */
 export const assessImageQuality = async (
-  imageBase64: string
+  imageBase64: string,
+  options: AICallOptions = {}
 ): Promise<QualityAssessment> => {
   const ai = getInjectedAI();
   const modelName = "gemini-2.5-flash"; // vision-capable
@@ -431,66 +620,231 @@ Fail if score < 80.`;
   };
 
   try {
-    const model = ai.getGenerativeModel
-      ? ai.getGenerativeModel({ model: modelName })
-      : ai;
-    let response: any;
-    if (model.generateContent) {
-      response = await model.generateContent(payload);
-    } else if (ai.generateContent) {
-      response = await ai.generateContent(payload);
-    } else if (model.generate) {
-      response = await model.generate(payload);
-    } else {
-      throw new Error(
-        "Injected AI client does not support generateContent/generate APIs."
+    return await withRetry(async () => {
+      const response = await invokeModel(
+        ai,
+        modelName,
+        payload,
+        options.signal
+      );
+      reportUsage(
+        options,
+        modelName,
+        response?.usageMetadata ?? response?.response?.usageMetadata
       );
-    }
 
-    // try to parse JSON text
-    const rawText =
-      response?.outputText ||
-      response?.text ||
-      response?.response ||
-      (response?.candidates &&
-        response.candidates[0]?.content?.parts?.find((p: any) => p.text)?.text);
-    let parsed: any = null;
-    if (rawText) {
-      try {
-        parsed = typeof rawText === "string" ? JSON.parse(rawText) : rawText;
-      } catch (e) {
-        // search candidate parts for JSON
-        const candidate = response?.candidates?.[0]?.content?.parts?.find(
-          (p: any) =>
-            typeof p.text === "string" && p.text.trim().startsWith("{")
-        );
-        if (candidate && candidate.text) {
-          try {
-            parsed = JSON.parse(candidate.text);
-          } catch {}
+      // try to parse JSON text
+      const rawText =
+        response?.outputText ||
+        response?.text ||
+        response?.response ||
+        (response?.candidates &&
+          response.candidates[0]?.content?.parts?.find((p: any) => p.text)?.text);
+      let parsed: any = null;
+      if (rawText) {
+        try {
+          parsed = typeof rawText === "string" ? JSON.parse(rawText) : rawText;
+        } catch (e) {
+          // search candidate parts for JSON
+          const candidate = response?.candidates?.[0]?.content?.parts?.find(
+            (p: any) =>
+              typeof p.text === "string" && p.text.trim().startsWith("{")
+          );
+          if (candidate && candidate.text) {
+            try {
+              parsed = JSON.parse(candidate.text);
+            } catch {}
+          }
         }
       }
-    }
 
-    if (!parsed)
-      throw new Error(
-        "Quality assessment: no JSON payload found in AI response."
-      );
+      if (!parsed) {
+        assertNotBlocked(response);
+        throw new MalformedResponseError(
+          "Quality assessment: no JSON payload found in AI response."
+        );
+      }
 
-    // normalize
-    parsed.score = Number(parsed.score || 0);
-    parsed.issues = Array.isArray(parsed.issues)
-      ? parsed.issues
-      : parsed.issues
-      ? [String(parsed.issues)]
-      : [];
-    parsed.explanation = parsed.explanation || "";
-    parsed.microstock_pass = !!parsed.microstock_pass;
-    parsed.timestamp = parsed.timestamp || Date.now();
-
-    return parsed as QualityAssessment;
+      // normalize
+      parsed.score = Number(parsed.score || 0);
+      parsed.issues = Array.isArray(parsed.issues)
+        ? parsed.issues
+        : parsed.issues
+        ? [String(parsed.issues)]
+        : [];
+      parsed.explanation = parsed.explanation || "";
+      parsed.microstock_pass = !!parsed.microstock_pass;
+      parsed.timestamp = parsed.timestamp || Date.now();
+
+      return parsed as QualityAssessment;
+    }, { signal: options.signal });
   } catch (err) {
     console.error("[assessImageQuality] failed:", err);
-    throw err;
+    throw classifyError(err);
   }
 };
+
+/**
+ * Rewrite a draft prompt into a detailed stock-friendly prompt for the given strategy.
+ * Returns the rewritten prompt as plain text.
+ */
+export const enhancePrompt = async (
+  prompt: string,
+  strategy: EnhanceStrategy,
+  options: AICallOptions = {}
+): Promise<string> => {
+  const ai = getInjectedAI();
+  const modelName = "gemini-2.5-flash";
+
+  const instruction = `You are a prompt engineer for commercial microstock image generation.
+Rewrite the draft below into one detailed image prompt (60-120 words) that sells well on Adobe Stock and Shutterstock.
+Strategy (${strategy}): ${ENHANCE_STRATEGY_INSTRUCTIONS[strategy]}
+Keep the subject and intent. Describe subject, setting, composition, lighting, camera/lens and mood.
+Never mention brands, logos, trademarks, copyrighted characters, real people or legible text.
+Return ONLY the rewritten prompt, no quotes or commentary.
+
+Draft: ${prompt}`;
+
+  const payload = {
+    model: modelName,
+    contents: [
+      {
+        role: "user",
+        parts: [{ text: instruction }],
+      },
+    ],
+  };
+
+  try {
+    return await withRetry(async () => {
+      const response = await invokeModel(
+        ai,
+        modelName,
+        payload,
+        options.signal
+      );
+      reportUsage(
+        options,
+        modelName,
+        response?.usageMetadata ?? response?.response?.usageMetadata
+      );
+
+      const rawText =
+        response?.outputText ||
+        response?.text ||
+        (typeof response?.response === "string" ? response.response : null) ||
+        response?.candidates?.[0]?.content?.parts?.find((p: any) => p.text)
+          ?.text;
+      const text =
+        typeof rawText === "string"
+          ? rawText.trim().replace(/^["']|["']$/g, "")
+          : "";
+      if (!text) {
+        assertNotBlocked(response);
+        throw new MalformedResponseError("No enhanced prompt in AI response.");
+      }
+      return text;
+    }, { signal: options.signal });
+  } catch (err) {
+    console.error("[enhancePrompt] failed:", err);
+    throw classifyError(err);
+  }
+};
+
+/**
+ * Translate English metadata (title, description, keywords) into the target languages.
+ * Returns one MetadataTranslation per language the model answered for.
+ */
+export const translateMetadata = async (
+  metadata: ImageMetadata,
+  languages: MetadataLanguage[],
+  options: AICallOptions = {}
+): Promise<MetadataTranslations> => {
+  if (languages.length === 0) return {};
+  const ai = getInjectedAI();
+  const modelName = "gemini-2.5-flash";
+
+  const targets = languages
+    .map((lang) => `${lang} (${METADATA_LANGUAGES[lang]})`)
+    .join(", ");
+  const instruction = `You are a professional microstock metadata translator.
+Translate the stock image metadata below into: ${targets}.
+Title and description: natural, idiomatic translations of the same length; do not add claims.
+Keywords: search terms native speakers would use, not word-for-word, in the same order of importance. Drop keywords with no sensible equivalent and never add duplicates.
+Never add brands, trademarks or real people.
+Return ONLY a JSON array of {"language": "<ISO 639-1 code>", "title": "...", "description": "...", "keywords": ["..."]}.
+
+Title: ${metadata.title}
+Description: ${metadata.description}
+Keywords: ${metadata.keywords.join(", ")}`;
+
+  const payload = {
+    model: modelName,
+    contents: [
+      {
+        role: "user",
+        parts: [{ text: instruction }],
+      },
+    ],
+    responseMimeType: "application/json",
+  };
+
+  try {
+    return await withRetry(async () => {
+      const response = await invokeModel(
+        ai,
+        modelName,
+        payload,
+        options.signal
+      );
+      reportUsage(
+        options,
+        modelName,
+        response?.usageMetadata ?? response?.response?.usageMetadata
+      );
+
+      const rawText =
+        response?.outputText ||
+        response?.text ||
+        (typeof response?.response === "string" ? response.response : null) ||
+        response?.candidates?.[0]?.content?.parts?.find((p: any) => p.text)
+          ?.text;
+      let parsed: any = null;
+      if (typeof rawText === "string") {
+        // tolerate a fenced code block around the JSON
+        const json = rawText.replace(/^\s*```(?:json)?|```\s*$/g, "").trim();
+        try {
+          parsed = JSON.parse(json);
+        } catch {}
+      }
+      if (!parsed) {
+        assertNotBlocked(response);
+        throw new MalformedResponseError(
+          "Metadata translation: no JSON payload found in AI response."
+        );
+      }
+      return parseTranslations(parsed, languages);
+    }, { signal: options.signal });
+  } catch (err) {
+    console.error("[translateMetadata] failed:", err);
+    throw classifyError(err);
+  }
+};
+
+/**
+ * Provider adapter for the AI Studio embed (`window.aistudio`).
+ */
+export const aiStudioProvider: AIProvider = {
+  id: "aistudio",
+  label: "AI Studio Embed",
+  description: "Injected window.aistudio client; keys and quotas managed by AI Studio.",
+  imageModel: IMAGE_MODEL,
+  checkApiKey,
+  promptForApiKey,
+  generateImage,
+  editImage,
+  generateMetadata,
+  assessImageQuality,
+  enhancePrompt,
+  translateMetadata,
+};
@@ -0,0 +1,73 @@
+import { ImageFileInfo } from '../types';
+
+// Leading bytes of the formats the image models and the upscaler produce
+const SIGNATURES: { mimeType: string; bytes: (number | null)[] }[] = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] }
+];
+
+const sniffMimeType = (header: Uint8Array): string | null => {
+  const found = SIGNATURES.find(({ bytes }) =>
+    header.length >= bytes.length && bytes.every((byte, i) => byte === null || header[i] === byte)
+  );
+  return found?.mimeType ?? null;
+};
+
+/**
+ * Decodes an image URL (data:, blob: or http) and reports its real pixel size, byte size and format.
+ */
+export const measureImage = async (url: string): Promise<ImageFileInfo> => {
+  const blob = await (await fetch(url)).blob();
+  const header = new Uint8Array(await blob.slice(0, 16).arrayBuffer());
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return {
+      width: bitmap.width,
+      height: bitmap.height,
+      bytes: blob.size,
+      mimeType: sniffMimeType(header) ?? (blob.type || 'application/octet-stream')
+    };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Decodes an image URL into raw RGBA pixels at its natural size.
+ */
+export const decodeImageData = (url: string): Promise<ImageData> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error("Canvas 2D context is not available"));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => reject(new Error("Could not decode the image"));
+    img.src = url;
+  });
+
+export const getMegapixels = (file: ImageFileInfo): number => (file.width * file.height) / 1_000_000;
+
+export const formatMegapixels = (file: ImageFileInfo): string => `${getMegapixels(file).toFixed(1)} MP`;
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * One-line summary such as "2048×2048 · 4.2 MP · 3.1 MB PNG".
+ */
+export const describeImageFile = (file: ImageFileInfo): string =>
+  `${file.width}×${file.height} · ${formatMegapixels(file)} · ${formatBytes(file.bytes)} ${file.mimeType.replace('image/', '').toUpperCase()}`;
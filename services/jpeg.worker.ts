@@ -0,0 +1,29 @@
+import { encodeJpeg } from './jpegEncoder';
+
+export interface JpegWorkerRequest {
+  width: number;
+  height: number;
+  data: ArrayBuffer; // RGBA
+  quality: number;
+  segments: Uint8Array[];
+}
+
+export type JpegWorkerResponse =
+  | { ok: true; data: ArrayBuffer }
+  | { ok: false; message: string };
+
+// The DOM lib types `self` as a Window; only the worker half of postMessage is used here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<JpegWorkerRequest>) => void) | null;
+  postMessage: (message: JpegWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+scope.onmessage = (event) => {
+  const { width, height, data, quality, segments } = event.data;
+  try {
+    const jpeg = encodeJpeg(new Uint8ClampedArray(data), width, height, quality, segments);
+    scope.postMessage({ ok: true, data: jpeg.buffer as ArrayBuffer }, [jpeg.buffer as ArrayBuffer]);
+  } catch (err) {
+    scope.postMessage({ ok: false, message: err instanceof Error ? err.message : String(err) });
+  }
+};
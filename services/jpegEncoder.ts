@@ -0,0 +1,397 @@
+/**
+ * Baseline (sequential, Huffman) JPEG encoder with 4:4:4 sampling: every component keeps full
+ * resolution, so fine colour edges survive the stock reviewers' 100% zoom. Pure TypeScript on
+ * typed arrays, so it runs in a worker.
+ */
+
+// Natural (row-major) index -> zig-zag position
+const ZIGZAG = [
+  0, 1, 5, 6, 14, 15, 27, 28,
+  2, 4, 7, 13, 16, 26, 29, 42,
+  3, 8, 12, 17, 25, 30, 41, 43,
+  9, 11, 18, 24, 31, 40, 44, 53,
+  10, 19, 23, 32, 39, 45, 52, 54,
+  20, 22, 33, 38, 46, 51, 55, 60,
+  21, 34, 37, 47, 50, 56, 59, 61,
+  35, 36, 48, 49, 57, 58, 62, 63
+];
+
+// ITU T.81 Annex K quantization tables, natural order
+const LUMINANCE_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99
+];
+
+const CHROMINANCE_QUANT = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99
+];
+
+// ITU T.81 Annex K Huffman tables: code counts per length 1..16, then symbols
+const DC_LUMINANCE_BITS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_LUMINANCE_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const DC_CHROMINANCE_BITS = [0, 3, 1, 1, 1, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0];
+const DC_CHROMINANCE_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+const AC_LUMINANCE_BITS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d];
+const AC_LUMINANCE_VALUES = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07,
+  0x22, 0x71, 0x14, 0x32, 0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0,
+  0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16, 0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28,
+  0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48, 0x49,
+  0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89,
+  0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7,
+  0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5,
+  0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda, 0xe1, 0xe2,
+  0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa
+];
+
+const AC_CHROMINANCE_BITS = [0, 2, 1, 2, 4, 4, 3, 4, 7, 5, 4, 4, 0, 1, 2, 0x77];
+const AC_CHROMINANCE_VALUES = [
+  0x00, 0x01, 0x02, 0x03, 0x11, 0x04, 0x05, 0x21, 0x31, 0x06, 0x12, 0x41, 0x51, 0x07, 0x61, 0x71,
+  0x13, 0x22, 0x32, 0x81, 0x08, 0x14, 0x42, 0x91, 0xa1, 0xb1, 0xc1, 0x09, 0x23, 0x33, 0x52, 0xf0,
+  0x15, 0x62, 0x72, 0xd1, 0x0a, 0x16, 0x24, 0x34, 0xe1, 0x25, 0xf1, 0x17, 0x18, 0x19, 0x1a, 0x26,
+  0x27, 0x28, 0x29, 0x2a, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45, 0x46, 0x47, 0x48,
+  0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68,
+  0x69, 0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x82, 0x83, 0x84, 0x85, 0x86, 0x87,
+  0x88, 0x89, 0x8a, 0x92, 0x93, 0x94, 0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5,
+  0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6, 0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3,
+  0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8, 0xd9, 0xda,
+  0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa
+];
+
+// AAN DCT output scale factors
+const AAN_SCALE = [1.0, 1.387039845, 1.306562965, 1.175875602, 1.0, 0.785694958, 0.5411961, 0.275899379];
+
+interface HuffmanTable {
+  codes: Int32Array; // by symbol
+  lengths: Int32Array; // by symbol, 0 = not in the table
+}
+
+const buildHuffmanTable = (bits: number[], values: number[]): HuffmanTable => {
+  const codes = new Int32Array(256);
+  const lengths = new Int32Array(256);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < bits[length - 1]; i++) {
+      codes[values[k]] = code;
+      lengths[values[k]] = length;
+      code++;
+      k++;
+    }
+    code <<= 1;
+  }
+  return { codes, lengths };
+};
+
+const DC_LUMINANCE = buildHuffmanTable(DC_LUMINANCE_BITS, DC_LUMINANCE_VALUES);
+const DC_CHROMINANCE = buildHuffmanTable(DC_CHROMINANCE_BITS, DC_CHROMINANCE_VALUES);
+const AC_LUMINANCE = buildHuffmanTable(AC_LUMINANCE_BITS, AC_LUMINANCE_VALUES);
+const AC_CHROMINANCE = buildHuffmanTable(AC_CHROMINANCE_BITS, AC_CHROMINANCE_VALUES);
+
+/**
+ * Scales a base table with the IJG quality formula; returns it in zig-zag order as written to DQT.
+ */
+const scaleQuantTable = (base: number[], quality: number): Uint8Array => {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  const table = new Uint8Array(64);
+  for (let i = 0; i < 64; i++) {
+    table[ZIGZAG[i]] = Math.min(255, Math.max(1, Math.floor((base[i] * scale + 50) / 100)));
+  }
+  return table;
+};
+
+// Folds the AAN scale factors into the quantizer divisors, natural order
+const buildDivisors = (zigzagTable: Uint8Array): Float32Array => {
+  const divisors = new Float32Array(64);
+  for (let row = 0, k = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++, k++) {
+      divisors[k] = 1 / (zigzagTable[ZIGZAG[k]] * AAN_SCALE[row] * AAN_SCALE[col] * 8);
+    }
+  }
+  return divisors;
+};
+
+/**
+ * Growable byte buffer with a bit writer for the entropy-coded segment.
+ */
+const createWriter = (initialSize: number) => {
+  let buffer = new Uint8Array(initialSize);
+  let length = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra <= buffer.length) return;
+    const next = new Uint8Array(Math.max(buffer.length * 2, length + extra));
+    next.set(buffer.subarray(0, length));
+    buffer = next;
+  };
+
+  const writeByte = (value: number) => {
+    ensure(1);
+    buffer[length++] = value;
+  };
+
+  const writeWord = (value: number) => {
+    writeByte((value >> 8) & 0xff);
+    writeByte(value & 0xff);
+  };
+
+  const writeBytes = (bytes: ArrayLike<number>) => {
+    ensure(bytes.length);
+    buffer.set(bytes, length);
+    length += bytes.length;
+  };
+
+  // Entropy-coded bytes equal to 0xFF are followed by a stuffed 0x00
+  const writeBits = (value: number, count: number) => {
+    for (let i = count - 1; i >= 0; i--) {
+      bitBuffer = (bitBuffer << 1) | ((value >> i) & 1);
+      bitCount++;
+      if (bitCount === 8) {
+        writeByte(bitBuffer);
+        if (bitBuffer === 0xff) writeByte(0);
+        bitBuffer = 0;
+        bitCount = 0;
+      }
+    }
+  };
+
+  // Pads the last partial byte with 1-bits
+  const flushBits = () => {
+    if (bitCount > 0) writeBits((1 << (8 - bitCount)) - 1, 8 - bitCount);
+  };
+
+  return {
+    writeByte,
+    writeWord,
+    writeBytes,
+    writeBits,
+    flushBits,
+    toBytes: () => buffer.slice(0, length)
+  };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+/**
+ * In-place AAN forward DCT of one 8x8 block, then quantization into zig-zag order.
+ */
+const forwardDctQuantize = (block: Float32Array, divisors: Float32Array, out: Int32Array) => {
+  for (let pass = 0; pass < 2; pass++) {
+    // Rows on the first pass, columns on the second
+    const step = pass === 0 ? 1 : 8;
+    const stride = pass === 0 ? 8 : 1;
+    for (let i = 0; i < 8; i++) {
+      const o = i * stride;
+      const d0 = block[o], d1 = block[o + step], d2 = block[o + 2 * step], d3 = block[o + 3 * step];
+      const d4 = block[o + 4 * step], d5 = block[o + 5 * step], d6 = block[o + 6 * step], d7 = block[o + 7 * step];
+
+      const tmp0 = d0 + d7, tmp7 = d0 - d7;
+      const tmp1 = d1 + d6, tmp6 = d1 - d6;
+      const tmp2 = d2 + d5, tmp5 = d2 - d5;
+      const tmp3 = d3 + d4, tmp4 = d3 - d4;
+
+      // Even part
+      let tmp10 = tmp0 + tmp3;
+      const tmp13 = tmp0 - tmp3;
+      let tmp11 = tmp1 + tmp2;
+      let tmp12 = tmp1 - tmp2;
+      block[o] = tmp10 + tmp11;
+      block[o + 4 * step] = tmp10 - tmp11;
+      const z1 = (tmp12 + tmp13) * 0.707106781;
+      block[o + 2 * step] = tmp13 + z1;
+      block[o + 6 * step] = tmp13 - z1;
+
+      // Odd part
+      tmp10 = tmp4 + tmp5;
+      tmp11 = tmp5 + tmp6;
+      tmp12 = tmp6 + tmp7;
+      const z5 = (tmp10 - tmp12) * 0.382683433;
+      const z2 = 0.5411961 * tmp10 + z5;
+      const z4 = 1.306562965 * tmp12 + z5;
+      const z3 = tmp11 * 0.707106781;
+      const z11 = tmp7 + z3;
+      const z13 = tmp7 - z3;
+      block[o + 5 * step] = z13 + z2;
+      block[o + 3 * step] = z13 - z2;
+      block[o + step] = z11 + z4;
+      block[o + 7 * step] = z11 - z4;
+    }
+  }
+
+  for (let i = 0; i < 64; i++) {
+    const value = block[i] * divisors[i];
+    out[ZIGZAG[i]] = value > 0 ? Math.floor(value + 0.5) : Math.ceil(value - 0.5);
+  }
+};
+
+// Bit length of |value| (the JPEG "category") and its magnitude bits
+const category = (value: number): number => {
+  let magnitude = Math.abs(value);
+  let bits = 0;
+  while (magnitude > 0) {
+    bits++;
+    magnitude >>= 1;
+  }
+  return bits;
+};
+
+const writeCoefficient = (writer: Writer, value: number, size: number) => {
+  writer.writeBits(value < 0 ? (value - 1) & ((1 << size) - 1) : value, size);
+};
+
+const writeSymbol = (writer: Writer, table: HuffmanTable, symbol: number) => {
+  writer.writeBits(table.codes[symbol], table.lengths[symbol]);
+};
+
+/**
+ * Huffman-codes one quantized block; returns its DC value for the next block's prediction.
+ */
+const encodeBlock = (writer: Writer, coefficients: Int32Array, previousDc: number, dc: HuffmanTable, ac: HuffmanTable): number => {
+  const diff = coefficients[0] - previousDc;
+  const dcSize = category(diff);
+  writeSymbol(writer, dc, dcSize);
+  if (dcSize > 0) writeCoefficient(writer, diff, dcSize);
+
+  let last = 63;
+  while (last > 0 && coefficients[last] === 0) last--;
+
+  let run = 0;
+  for (let i = 1; i <= last; i++) {
+    const value = coefficients[i];
+    if (value === 0) {
+      run++;
+      continue;
+    }
+    while (run >= 16) {
+      writeSymbol(writer, ac, 0xf0); // ZRL: sixteen zeros
+      run -= 16;
+    }
+    const size = category(value);
+    writeSymbol(writer, ac, (run << 4) | size);
+    writeCoefficient(writer, value, size);
+    run = 0;
+  }
+  if (last < 63) writeSymbol(writer, ac, 0x00); // EOB
+
+  return coefficients[0];
+};
+
+const writeHuffmanTable = (writer: Writer, tableClassAndId: number, bits: number[], values: number[]) => {
+  writer.writeByte(tableClassAndId);
+  writer.writeBytes(bits);
+  writer.writeBytes(values);
+};
+
+/**
+ * Encodes RGBA pixels as a baseline JPEG. Transparent pixels are flattened onto white.
+ * `segments` are complete marker segments (e.g. APP1 XMP, APP13 IPTC) written right after APP0.
+ */
+export const encodeJpeg = (
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  quality: number,
+  segments: Uint8Array[] = []
+): Uint8Array => {
+  const lumaTable = scaleQuantTable(LUMINANCE_QUANT, quality);
+  const chromaTable = scaleQuantTable(CHROMINANCE_QUANT, quality);
+  const lumaDivisors = buildDivisors(lumaTable);
+  const chromaDivisors = buildDivisors(chromaTable);
+
+  const writer = createWriter(Math.max(1 << 16, width * height));
+
+  // SOI + APP0 (JFIF 1.01, no density, no thumbnail)
+  writer.writeWord(0xffd8);
+  writer.writeWord(0xffe0);
+  writer.writeWord(16);
+  writer.writeBytes([0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+  for (const segment of segments) writer.writeBytes(segment);
+
+  // DQT
+  writer.writeWord(0xffdb);
+  writer.writeWord(2 + 2 * 65);
+  writer.writeByte(0);
+  writer.writeBytes(lumaTable);
+  writer.writeByte(1);
+  writer.writeBytes(chromaTable);
+
+  // SOF0: three components, all sampled 1x1 (4:4:4)
+  writer.writeWord(0xffc0);
+  writer.writeWord(17);
+  writer.writeByte(8);
+  writer.writeWord(height);
+  writer.writeWord(width);
+  writer.writeByte(3);
+  writer.writeBytes([1, 0x11, 0, 2, 0x11, 1, 3, 0x11, 1]);
+
+  // DHT
+  writer.writeWord(0xffc4);
+  writer.writeWord(2 + 4 * 17 + DC_LUMINANCE_VALUES.length + AC_LUMINANCE_VALUES.length + DC_CHROMINANCE_VALUES.length + AC_CHROMINANCE_VALUES.length);
+  writeHuffmanTable(writer, 0x00, DC_LUMINANCE_BITS, DC_LUMINANCE_VALUES);
+  writeHuffmanTable(writer, 0x10, AC_LUMINANCE_BITS, AC_LUMINANCE_VALUES);
+  writeHuffmanTable(writer, 0x01, DC_CHROMINANCE_BITS, DC_CHROMINANCE_VALUES);
+  writeHuffmanTable(writer, 0x11, AC_CHROMINANCE_BITS, AC_CHROMINANCE_VALUES);
+
+  // SOS
+  writer.writeWord(0xffda);
+  writer.writeWord(12);
+  writer.writeByte(3);
+  writer.writeBytes([1, 0x00, 2, 0x11, 3, 0x11]);
+  writer.writeBytes([0, 63, 0]);
+
+  const yBlock = new Float32Array(64);
+  const cbBlock = new Float32Array(64);
+  const crBlock = new Float32Array(64);
+  const coefficients = new Int32Array(64);
+  let dcY = 0, dcCb = 0, dcCr = 0;
+
+  for (let by = 0; by < height; by += 8) {
+    for (let bx = 0; bx < width; bx += 8) {
+      for (let k = 0; k < 64; k++) {
+        // Edge blocks repeat the last row/column
+        const y = Math.min(height - 1, by + (k >> 3));
+        const x = Math.min(width - 1, bx + (k & 7));
+        const p = (y * width + x) * 4;
+        const alpha = rgba[p + 3] / 255;
+        const r = rgba[p] * alpha + 255 * (1 - alpha);
+        const g = rgba[p + 1] * alpha + 255 * (1 - alpha);
+        const b = rgba[p + 2] * alpha + 255 * (1 - alpha);
+        yBlock[k] = 0.299 * r + 0.587 * g + 0.114 * b - 128;
+        cbBlock[k] = -0.168736 * r - 0.331264 * g + 0.5 * b;
+        crBlock[k] = 0.5 * r - 0.418688 * g - 0.081312 * b;
+      }
+
+      forwardDctQuantize(yBlock, lumaDivisors, coefficients);
+      dcY = encodeBlock(writer, coefficients, dcY, DC_LUMINANCE, AC_LUMINANCE);
+      forwardDctQuantize(cbBlock, chromaDivisors, coefficients);
+      dcCb = encodeBlock(writer, coefficients, dcCb, DC_CHROMINANCE, AC_CHROMINANCE);
+      forwardDctQuantize(crBlock, chromaDivisors, coefficients);
+      dcCr = encodeBlock(writer, coefficients, dcCr, DC_CHROMINANCE, AC_CHROMINANCE);
+    }
+  }
+
+  writer.flushBits();
+  writer.writeWord(0xffd9);
+  return writer.toBytes();
+};
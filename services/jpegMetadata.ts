@@ -0,0 +1,129 @@
+import { ImageMetadata, MetadataLanguage } from '../types';
+import { AUTHOR_PLACEHOLDER } from '../constants';
+import { getLocalizedFields, getTranslatedLanguages } from './translationService';
+
+// IPTC NewsCodes term for images created by a generative model
+export const AI_DIGITAL_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+const AI_DISCLOSURE = 'Created using generative AI';
+
+const MAX_SEGMENT_PAYLOAD = 65533; // marker segment length field covers itself
+
+const encoder = new TextEncoder();
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const markerSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  if (payload.length > MAX_SEGMENT_PAYLOAD) {
+    throw new Error(`Embedded metadata is too large (${payload.length} bytes) for a JPEG segment.`);
+  }
+  const header = new Uint8Array([0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  return concatBytes([header, payload]);
+};
+
+// Truncates UTF-8 without splitting a multi-byte character
+const utf8Truncate = (text: string, maxBytes: number): Uint8Array => {
+  const bytes = encoder.encode(text);
+  if (bytes.length <= maxBytes) return bytes;
+  let end = maxBytes;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.slice(0, end);
+};
+
+const iimRecord = (record: number, dataset: number, data: Uint8Array): Uint8Array =>
+  concatBytes([new Uint8Array([0x1c, record, dataset, data.length >> 8, data.length & 0xff]), data]);
+
+/**
+ * The creator to embed: `metadata.author` with the placeholder replaced by `author`.
+ * Empty while the placeholder is still unfilled, so no literal "{{author}}" is written.
+ */
+const resolveCreator = (metadata: ImageMetadata, author?: string): string => {
+  const name = author?.trim();
+  const creator = name ? metadata.author.split(AUTHOR_PLACEHOLDER).join(name) : metadata.author;
+  return creator.includes(AUTHOR_PLACEHOLDER) ? '' : creator.trim();
+};
+
+/**
+ * APP13 "Photoshop 3.0" segment holding an IPTC-IIM block (8BIM resource 0x0404), with
+ * field lengths capped at the IIM maximums. Text is declared UTF-8 via dataset 1:90.
+ * IIM has no language tagging, so only `language` (English when omitted) is written.
+ */
+export const buildIptcSegment = (metadata: ImageMetadata, language?: MetadataLanguage, author?: string): Uint8Array => {
+  const fields = getLocalizedFields(metadata, language);
+  const creator = resolveCreator(metadata, author);
+  const records: Uint8Array[] = [
+    iimRecord(1, 90, new Uint8Array([0x1b, 0x25, 0x47])), // ESC % G = UTF-8
+    iimRecord(2, 0, new Uint8Array([0x00, 0x04])), // record version 4
+    iimRecord(2, 5, utf8Truncate(fields.title, 64)), // Object Name
+    iimRecord(2, 105, utf8Truncate(fields.title, 256)), // Headline
+    iimRecord(2, 120, utf8Truncate(fields.description, 2000)), // Caption/Abstract
+    ...fields.keywords.map(keyword => iimRecord(2, 25, utf8Truncate(keyword, 64)))
+  ];
+  if (metadata.isAI) records.push(iimRecord(2, 40, encoder.encode(AI_DISCLOSURE))); // Special Instructions
+  if (creator) records.push(iimRecord(2, 80, utf8Truncate(creator, 32))); // By-line
+
+  const iim = concatBytes(records);
+  const padded = iim.length % 2 === 0 ? iim : concatBytes([iim, new Uint8Array(1)]);
+  const size = new Uint8Array(4);
+  new DataView(size.buffer).setUint32(0, iim.length);
+
+  return markerSegment(0xed, concatBytes([
+    encoder.encode('Photoshop 3.0\0'),
+    encoder.encode('8BIM'),
+    new Uint8Array([0x04, 0x04, 0x00, 0x00]), // resource id, empty Pascal name padded to even
+    size,
+    padded
+  ]));
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// rdf:Alt with the primary text as x-default followed by every language's own entry
+const langAlt = (primary: string, entries: [string, string][]): string =>
+  `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(primary)}</rdf:li>${
+    entries.map(([lang, text]) => `<rdf:li xml:lang="${lang}">${escapeXml(text)}</rdf:li>`).join('')
+  }</rdf:Alt>`;
+
+/**
+ * APP1 XMP packet with Dublin Core title/description/subject/creator, the Photoshop headline and,
+ * for AI images, the IPTC Extension digital source type that stock sites read as the AI disclosure.
+ * Title and description carry every stored translation as xml:lang alternatives; `language`
+ * picks the x-default text and the keyword set, since dc:subject cannot be language-tagged.
+ */
+export const buildXmpSegment = (metadata: ImageMetadata, language?: MetadataLanguage, author?: string): Uint8Array => {
+  const fields = getLocalizedFields(metadata, language);
+  const creator = resolveCreator(metadata, author);
+  const alternates = (field: 'title' | 'description'): [string, string][] => [
+    ['en', metadata[field]],
+    ...getTranslatedLanguages(metadata).map((lang): [string, string] => [lang, metadata.translations![lang]![field]])
+  ];
+  const keywords = fields.keywords.map(k => `<rdf:li>${escapeXml(k)}</rdf:li>`).join('');
+  const xmp = `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/"
+    xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+    photoshop:Headline="${escapeXml(fields.title)}"${metadata.isAI ? `
+    photoshop:Instructions="${AI_DISCLOSURE}"
+    Iptc4xmpExt:DigitalSourceType="${AI_DIGITAL_SOURCE_TYPE}"` : ''}>
+   <dc:title>${langAlt(fields.title, alternates('title'))}</dc:title>
+   <dc:description>${langAlt(fields.description, alternates('description'))}</dc:description>
+   <dc:subject><rdf:Bag>${keywords}</rdf:Bag></dc:subject>${creator ? `
+   <dc:creator><rdf:Seq><rdf:li>${escapeXml(creator)}</rdf:li></rdf:Seq></dc:creator>` : ''}
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+  return markerSegment(0xe1, concatBytes([encoder.encode('http://ns.adobe.com/xap/1.0/\0'), encoder.encode(xmp)]));
+};
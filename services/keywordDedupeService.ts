@@ -0,0 +1,136 @@
+import { KeywordGroup } from '../types';
+
+// British spellings that no suffix rule below can fold into their American form
+const SPELLING_VARIANTS: Record<string, string> = {
+  grey: 'gray', centre: 'center', theatre: 'theater', metre: 'meter', litre: 'liter', fibre: 'fiber',
+  sombre: 'somber', spectre: 'specter', calibre: 'caliber', jewellery: 'jewelry', aluminium: 'aluminum',
+  aeroplane: 'airplane', doughnut: 'donut', cosy: 'cozy', pyjamas: 'pajamas', catalogue: 'catalog',
+  dialogue: 'dialog', analogue: 'analog', programme: 'program', cheque: 'check', plough: 'plow',
+  mould: 'mold', moustache: 'mustache', sceptical: 'skeptical', tyre: 'tire', kerb: 'curb',
+  travelling: 'traveling', travelled: 'traveled', traveller: 'traveler', modelling: 'modeling',
+  cancelled: 'canceled', paediatric: 'pediatric', anaesthesia: 'anesthesia',
+  oestrogen: 'estrogen', encyclopaedia: 'encyclopedia', defence: 'defense', licence: 'license',
+  offence: 'offense', practise: 'practice'
+};
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  men: 'man', women: 'woman', children: 'child', people: 'person', mice: 'mouse', feet: 'foot',
+  teeth: 'tooth', geese: 'goose', oxen: 'ox', leaves: 'leaf', knives: 'knife', wives: 'wife',
+  lives: 'life', wolves: 'wolf', halves: 'half', shelves: 'shelf', loaves: 'loaf', calves: 'calf',
+  thieves: 'thief', cacti: 'cactus', fungi: 'fungus', data: 'datum', criteria: 'criterion'
+};
+
+// Words ending in "men" that are not plurals of "man"
+const MEN_EXCEPTIONS = new Set(['omen', 'amen', 'ramen', 'semen', 'stamen', 'specimen', 'abdomen', 'yemen', 'regimen', 'acumen']);
+
+// Words whose trailing "s" is not a plural ending, or whose plural means something else
+const S_EXCEPTIONS = new Set([
+  'news', 'series', 'species', 'lens', 'glasses', 'sunglasses', 'jeans', 'pants', 'shorts', 'scissors',
+  'clothes', 'arms', 'goods', 'sales', 'savings', 'mathematics', 'physics', 'economics', 'politics',
+  'diabetes', 'herpes', 'always', 'perhaps', 'christmas', 'texas', 'paris', 'athens'
+]);
+
+// Nouns and adjectives ending in "-ing" or "-ed" that mean something other than their base word.
+// Compounds ending in one ("oil painting", "kickboxing") are covered as well.
+const ING_ED_EXCEPTIONS = [
+  'boxing', 'clothing', 'dressing', 'housing', 'painting', 'evening', 'wedding', 'bedding', 'building',
+  'ceiling', 'morning', 'meeting', 'feeling', 'landing', 'parking', 'shopping', 'training', 'marketing',
+  'banking', 'cooking', 'drawing', 'fishing', 'lighting', 'flooring', 'roofing', 'setting', 'topping',
+  'stuffing', 'filling', 'frosting', 'icing', 'seasoning', 'earring', 'offering', 'finding', 'reading',
+  'writing', 'siding', 'heading', 'wiring', 'planning', 'printing', 'casting', 'booking', 'racing',
+  'wicked', 'crooked', 'ragged', 'rugged', 'jagged', 'naked'
+];
+
+/**
+ * Light stemmer for one word: plural endings ("cities", "boxes", "businessmen"), "-ing" and "-ed",
+ * and a final "e", so "smile", "smiles", "smiling" and "smiled" all become "smil". Words in
+ * ING_ED_EXCEPTIONS keep their ending, so "painting" and "paint" stay apart. It is deliberately
+ * weaker than a full Porter stemmer; "business" and "busy" must stay apart too.
+ */
+const stemWord = (word: string): string => {
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (word.length <= 3 || S_EXCEPTIONS.has(word)) return word;
+
+  let stem = word;
+  if (/\p{L}{3,}men$/u.test(stem) && !MEN_EXCEPTIONS.has(stem)) {
+    stem = stem.slice(0, -3) + 'man';
+  } else if (/ies$/.test(stem) && stem.length > 4) {
+    stem = stem.slice(0, -3) + 'i';
+  } else if (/s$/.test(stem) && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  const suffix = stem.match(/(ing|ed)$/);
+  if (suffix && !ING_ED_EXCEPTIONS.some(noun => stem.endsWith(noun))) {
+    const base = stem.slice(0, -suffix[0].length);
+    // "ring" and "red" have no stem; "speed" is not "spe" + "ed"
+    if (base.length >= 3 && /[aeiouy]/.test(base) && !(suffix[1] === 'ed' && /e$/.test(base))) {
+      stem = /([^aeiouslz])\1$/.test(base) ? base.slice(0, -1) : base;
+    }
+  }
+
+  return stem
+    .replace(/([^aeiou])y$/, '$1i')
+    .replace(/(\p{L}{2,})e$/u, '$1');
+};
+
+/**
+ * Folds British spellings into American ones: the table above, then "-ise"/"-yse" verbs and
+ * "-our" nouns ("organise", "analyse", "colour", "flavoured").
+ */
+const americanize = (word: string): string => {
+  if (SPELLING_VARIANTS[word]) return SPELLING_VARIANTS[word];
+  return word
+    .replace(/(\p{L}{3,})is(e|es|ed|ing|ation|ations)$/u, '$1iz$2')
+    .replace(/(\p{L}{2,})ys(e|es|ed|ing)$/u, '$1yz$2')
+    .replace(/(\p{L}{3,})our(s|ed|ing|ful|ite|ites)?$/u, '$1or$2');
+};
+
+/**
+ * The form two keywords share when an agency would count them as the same keyword. Words are
+ * lowercased, hyphens and spaces are dropped ("business man", "business-man" and "businessman"
+ * compare equal), and spelling variants and plural or verb endings are folded.
+ */
+export const normalizeKeyword = (keyword: string): string => {
+  const words = keyword
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(/['’]s\b/g, '')
+    .split(/[\s\-_/]+/)
+    .filter(Boolean)
+    .map(word => IRREGULAR_PLURALS[word] ?? americanize(word));
+  return stemWord(words.join(''));
+};
+
+/**
+ * Groups keywords that normalize to the same form. The first keyword in each group is kept,
+ * since earlier keywords carry more weight on the agencies' search; the others are suggested
+ * for removal. Only groups of two or more are returned.
+ */
+export const findNearDuplicates = (keywords: string[]): KeywordGroup[] => {
+  const groups = new Map<string, string[]>();
+  for (const keyword of keywords) {
+    const stem = normalizeKeyword(keyword);
+    if (!stem) continue;
+    groups.set(stem, [...(groups.get(stem) ?? []), keyword]);
+  }
+  return Array.from(groups, ([stem, members]) => ({
+    stem,
+    keywords: members,
+    keep: members[0],
+    drop: members.slice(1)
+  })).filter(group => group.keywords.length > 1);
+};
+
+/**
+ * The keywords with every suggested drop removed, keeping the original order.
+ */
+export const dropNearDuplicates = (keywords: string[]): string[] => {
+  const seen = new Set<string>();
+  return keywords.filter(keyword => {
+    const stem = normalizeKeyword(keyword);
+    if (seen.has(stem)) return false;
+    seen.add(stem);
+    return true;
+  });
+};
@@ -0,0 +1,273 @@
+import { AIProvider, AspectRatio, GenerationParams, ImageEditRequest, ImageMetadata, ImageQuality, QualityAssessment, GenerationResult, AICallOptions, EnhanceStrategy, MetadataLanguage, MetadataTranslations } from '../types';
+import { raceWithSignal } from './errors';
+import { reportUsage } from './usageService';
+import { ENHANCE_STRATEGY_INSTRUCTIONS } from '../constants';
+
+// Long edge in pixels for each quality tier, matching what the Gemini image models return
+const LONG_EDGE: Record<ImageQuality, number> = {
+  [ImageQuality.ONE_K]: 1024,
+  [ImageQuality.TWO_K]: 2048,
+  [ImageQuality.FOUR_K]: 4096
+};
+
+const FILLER_KEYWORDS = [
+  "stock", "commercial", "background", "concept", "design", "creative", "modern", "colorful",
+  "abstract", "copy space", "nobody", "horizontal", "vibrant", "bright", "clean", "minimal",
+  "professional", "high resolution", "detail", "texture", "light", "composition", "contemporary",
+  "digital", "artistic", "illustration", "graphic", "scene", "color", "visual"
+];
+
+const STOP_WORDS = new Set(["a", "an", "the", "and", "of", "with", "in", "on", "at", "for", "to", "by", "from", "into", "its"]);
+
+const SIMULATED_LATENCY_MS = 400;
+
+const MOCK_MODEL = 'mock-placeholder';
+
+const randomSeed = (): number => Math.floor(Math.random() * 2147483647);
+
+/**
+ * Stable 32-bit FNV-1a hash so the same input always yields the same output.
+ */
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Mulberry32 PRNG seeded from the input hash.
+ */
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Simulated latency honours the abort signal like a real network call would
+const delay = (ms: number, signal?: AbortSignal) => raceWithSignal(new Promise(resolve => setTimeout(resolve, ms)), signal);
+
+const getDimensions = (aspectRatio: AspectRatio, quality: ImageQuality) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longEdge = LONG_EDGE[quality] || LONG_EDGE[ImageQuality.ONE_K];
+  return w >= h
+    ? { width: longEdge, height: Math.round(longEdge * h / w) }
+    : { width: Math.round(longEdge * w / h), height: longEdge };
+};
+
+const promptWords = (prompt: string): string[] =>
+  prompt
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+const checkApiKey = async (): Promise<boolean> => true;
+
+const promptForApiKey = async (): Promise<void> => {};
+
+/**
+ * Draws a gradient-and-shapes placeholder at the real output size.
+ * Output is fully determined by the params and seed, so a recorded seed reproduces it exactly.
+ */
+const generateImage = async (params: GenerationParams, options: AICallOptions = {}): Promise<GenerationResult> => {
+  await delay(SIMULATED_LATENCY_MS, options.signal);
+  reportUsage(options, MOCK_MODEL);
+
+  const seed = params.seed ?? randomSeed();
+  const effectivePrompt = [params.prompt, params.customStyle?.promptFragment ?? params.style, ...(params.constraints || [])].join(', ');
+  const random = createRandom(hashString(`${effectivePrompt}|${params.negativePrompt || ''}`) ^ seed);
+  const { width, height } = getDimensions(params.aspectRatio, params.quality);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+
+  const hue = Math.floor(random() * 360);
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 60%, 35%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 60%, 15%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const shapes = 6 + Math.floor(random() * 6);
+  for (let i = 0; i < shapes; i++) {
+    ctx.beginPath();
+    ctx.fillStyle = `hsla(${(hue + random() * 180) % 360}, 70%, 60%, ${0.15 + random() * 0.35})`;
+    ctx.arc(random() * width, random() * height, (0.05 + random() * 0.25) * Math.min(width, height), 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = `${Math.round(Math.min(width, height) / 24)}px sans-serif`;
+  ctx.fillText(`MOCK ${params.quality} ${params.aspectRatio} #${seed}`, width * 0.04, height * 0.94);
+
+  return {
+    url: canvas.toDataURL('image/png'),
+    provenance: {
+      providerId: 'mock',
+      model: MOCK_MODEL,
+      effectivePrompt,
+      seed,
+      config: { width, height, aspectRatio: params.aspectRatio, quality: params.quality, seed }
+    }
+  };
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode image"));
+    img.src = url;
+  });
+
+/**
+ * Tints the masked region of the source image with a colour derived from the instruction.
+ */
+const editImage = async (request: ImageEditRequest, options: AICallOptions = {}): Promise<GenerationResult> => {
+  await delay(SIMULATED_LATENCY_MS, options.signal);
+  reportUsage(options, MOCK_MODEL);
+
+  const [source, mask] = await Promise.all([loadImage(request.imageUrl), loadImage(request.maskUrl)]);
+  const { naturalWidth: width, naturalHeight: height } = source;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.drawImage(source, 0, 0);
+
+  // Build a tint layer whose alpha comes from the mask's brightness
+  const overlay = document.createElement('canvas');
+  overlay.width = width;
+  overlay.height = height;
+  const octx = overlay.getContext('2d');
+  if (!octx) throw new Error("Canvas 2D context is not available");
+  octx.drawImage(mask, 0, 0, width, height);
+  const maskData = octx.getImageData(0, 0, width, height);
+  const hue = hashString(request.instruction) % 360;
+  octx.fillStyle = `hsl(${hue}, 70%, 55%)`;
+  octx.fillRect(0, 0, width, height);
+  const tint = octx.getImageData(0, 0, width, height);
+  for (let i = 0; i < tint.data.length; i += 4) {
+    tint.data[i + 3] = Math.round(maskData.data[i] * 0.6);
+  }
+  octx.putImageData(tint, 0, 0);
+
+  ctx.drawImage(overlay, 0, 0);
+  return {
+    url: canvas.toDataURL('image/png'),
+    provenance: {
+      providerId: 'mock',
+      model: MOCK_MODEL,
+      effectivePrompt: request.instruction,
+      config: { width, height, tintHue: hue }
+    }
+  };
+};
+
+/**
+ * Returns canned metadata built from the prompt words plus stock filler keywords.
+ */
+const generateMetadata = async (params: GenerationParams, imageBase64?: string, options: AICallOptions = {}): Promise<ImageMetadata> => {
+  await delay(SIMULATED_LATENCY_MS, options.signal);
+  reportUsage(options, MOCK_MODEL);
+
+  const words = Array.from(new Set(promptWords(params.prompt)));
+  const keywords = Array.from(new Set([...words, ...FILLER_KEYWORDS])).slice(0, 40);
+  const subject = words.slice(0, 6).join(' ') || 'abstract concept';
+  const title = `Mock ${subject} stock image`.slice(0, 70);
+
+  return {
+    title,
+    description: `Placeholder stock image generated by the offline mock provider for "${params.prompt.slice(0, 80)}". Useful for testing the full pipeline without network access.`,
+    keywords,
+    keywordAnalysis: {
+      broad: keywords.slice(0, 10),
+      medium: keywords.slice(10, 25),
+      niche: keywords.slice(25),
+      trending: keywords.slice(0, 3)
+    },
+    category: 'Backgrounds/Textures',
+    contentType: imageBase64 ? 'Illustration' : 'Photography',
+    isAI: true,
+    author: '{{author}}'
+  };
+};
+
+/**
+ * Returns a score derived from the image hash; low scores come with canned issues.
+ */
+const assessImageQuality = async (imageBase64: string, options: AICallOptions = {}): Promise<QualityAssessment> => {
+  await delay(SIMULATED_LATENCY_MS, options.signal);
+  reportUsage(options, MOCK_MODEL);
+
+  const random = createRandom(hashString(imageBase64.slice(-512)));
+  const score = 55 + Math.floor(random() * 45);
+  const issues = score < 80
+    ? ["Slight background artifact near the lower edge", "Soft focus on the main subject"].slice(0, score < 65 ? 2 : 1)
+    : [];
+
+  return {
+    score,
+    issues,
+    explanation: score >= 80
+      ? "Mock assessment: clean placeholder with no defects."
+      : "Mock assessment: simulated defects to exercise the rejection flow.",
+    microstock_pass: score >= 80,
+    timestamp: Date.now()
+  };
+};
+
+/**
+ * Appends the strategy's canned direction so the accept/edit/reject flow can be exercised offline.
+ */
+const enhancePrompt = async (prompt: string, strategy: EnhanceStrategy, options: AICallOptions = {}): Promise<string> => {
+  await delay(SIMULATED_LATENCY_MS, options.signal);
+  reportUsage(options, MOCK_MODEL);
+
+  const base = prompt.trim().replace(/[.,\s]+$/, '');
+  return `${base}. ${ENHANCE_STRATEGY_INSTRUCTIONS[strategy]} Professional stock photography, high resolution, sharp focus.`;
+};
+
+/**
+ * Tags each field with the language code so translated tabs and exports can be checked offline.
+ */
+const translateMetadata = async (metadata: ImageMetadata, languages: MetadataLanguage[], options: AICallOptions = {}): Promise<MetadataTranslations> => {
+  await delay(SIMULATED_LATENCY_MS, options.signal);
+  reportUsage(options, MOCK_MODEL);
+
+  const translations: MetadataTranslations = {};
+  for (const lang of languages) {
+    translations[lang] = {
+      title: `[${lang}] ${metadata.title}`,
+      description: `[${lang}] ${metadata.description}`,
+      keywords: metadata.keywords.map(k => `${k} (${lang})`)
+    };
+  }
+  return translations;
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  description: 'Deterministic placeholder images and canned JSON. No key or network needed.',
+  imageModel: MOCK_MODEL,
+  checkApiKey,
+  promptForApiKey,
+  generateImage,
+  editImage,
+  generateMetadata,
+  assessImageQuality,
+  enhancePrompt,
+  translateMetadata
+};
@@ -0,0 +1,191 @@
+import { PromptLintCategory, PromptLintIssue } from '../types';
+
+// Term -> neutral replacement. Terms are matched case-insensitively on word boundaries.
+const BRAND_REWRITES: Record<string, string> = {
+  // Tech
+  "iphone": "smartphone", "ipad": "tablet", "macbook": "laptop", "imac": "desktop computer", "airpods": "wireless earbuds",
+  "apple watch": "smartwatch", "samsung galaxy": "smartphone", "samsung": "electronics", "google pixel": "smartphone",
+  "playstation": "game console", "xbox": "game console", "nintendo switch": "handheld game console",
+  "google": "search engine", "facebook": "social media", "instagram": "social media", "tiktok": "social media",
+  "whatsapp": "messaging app", "youtube": "video platform", "twitter": "social media", "linkedin": "professional network",
+  "microsoft windows": "computer operating system", "microsoft": "software", "adobe": "software", "photoshop": "photo editing software",
+  "skype": "video call", "gopro": "action camera",
+  // Auto
+  "bmw": "luxury car", "mercedes": "luxury car", "audi": "sedan", "tesla": "electric car", "ferrari": "sports car",
+  "porsche": "sports car", "lamborghini": "supercar", "toyota": "car", "honda": "car", "ford": "car", "jeep": "off-road vehicle",
+  "harley-davidson": "motorcycle", "vespa": "scooter",
+  // Fashion/Retail
+  "nike": "athletic", "adidas": "athletic", "reebok": "athletic",
+  "gucci": "designer", "prada": "designer", "louis vuitton": "designer", "chanel": "designer", "rolex": "luxury watch",
+  "ray-ban": "sunglasses", "zara": "clothing store", "ikea": "flat-pack furniture",
+  // Entertainment/Toys
+  "disney": "fairytale", "marvel": "comic book", "dc comics": "comic book", "star wars": "space opera",
+  "lego": "toy building blocks", "barbie": "fashion doll", "hot wheels": "toy car", "nerf": "foam toy blaster",
+  "rubik's cube": "puzzle cube",
+  // Food/Drink
+  "coca-cola": "cola", "coke": "cola", "pepsi": "cola", "red bull": "energy drink", "starbucks": "coffee shop",
+  "mcdonalds": "fast food", "mcdonald's": "fast food", "kfc": "fried chicken", "burger king": "fast food",
+  "nutella": "chocolate spread", "oreo": "sandwich cookie",
+  // Camera Gear
+  "canon": "camera", "nikon": "camera", "sony": "camera", "fujifilm": "camera", "leica": "camera"
+};
+
+const CHARACTER_REWRITES: Record<string, string> = {
+  "mickey mouse": "cartoon mouse", "minnie mouse": "cartoon mouse", "donald duck": "cartoon duck",
+  "spider-man": "masked superhero", "spiderman": "masked superhero", "batman": "caped vigilante",
+  "superman": "caped superhero", "iron man": "armored superhero",
+  "wonder woman": "warrior heroine", "captain america": "patriotic superhero", "incredible hulk": "giant green strongman",
+  "harry potter": "young wizard", "hogwarts": "castle school of magic", "gandalf": "old wizard",
+  "darth vader": "dark armored villain", "yoda": "wise old alien", "stormtrooper": "armored soldier",
+  "pikachu": "cute yellow creature", "pokemon": "cute creatures", "super mario": "cheerful plumber", "sonic the hedgehog": "fast blue hedgehog",
+  "shrek": "friendly ogre", "hello kitty": "cute cartoon cat", "snoopy": "cartoon beagle",
+  "winnie the pooh": "teddy bear", "sherlock holmes": "detective", "james bond": "secret agent", "godzilla": "giant monster",
+  "smurf": "small blue gnome", "smurfs": "small blue gnomes"
+};
+
+const PUBLIC_FIGURE_REWRITES: Record<string, string> = {
+  "elon musk": "a tech entrepreneur", "bill gates": "a businessman", "mark zuckerberg": "a tech founder",
+  "jeff bezos": "a businessman", "steve jobs": "a tech presenter", "oprah": "a talk show host",
+  "barack obama": "a politician", "donald trump": "a politician", "joe biden": "a politician",
+  "vladimir putin": "a politician", "queen elizabeth": "an elderly queen", "king charles": "an elderly king",
+  "pope francis": "a priest", "taylor swift": "a pop singer", "beyonce": "a pop singer", "beyoncé": "a pop singer",
+  "rihanna": "a pop singer", "lady gaga": "a pop singer", "kim kardashian": "a celebrity", "cristiano ronaldo": "a football player",
+  "lionel messi": "a football player", "michael jordan": "a basketball player", "lebron james": "a basketball player",
+  "serena williams": "a tennis player", "albert einstein": "an elderly scientist", "marilyn monroe": "a vintage movie star",
+  "leonardo dicaprio": "an actor", "brad pitt": "an actor", "tom cruise": "an actor", "scarlett johansson": "an actress"
+};
+
+// Landmarks whose image rights or night lighting are protected; commercial stock needs a property release
+const LANDMARK_REWRITES: Record<string, string> = {
+  "eiffel tower": "iron lattice tower", "sydney opera house": "modern waterfront concert hall", "atomium": "futuristic monument",
+  "hollywood sign": "hillside letters", "flatiron building": "triangular historic building",
+  "empire state building": "art deco skyscraper", "chrysler building": "art deco skyscraper",
+  "rockefeller center": "plaza with skyscrapers", "burj khalifa": "supertall skyscraper", "space needle": "observation tower",
+  "transamerica pyramid": "pyramid skyscraper", "louvre pyramid": "glass pyramid", "guggenheim": "modern art museum",
+  "sagrada familia": "ornate basilica", "taj mahal": "white marble mausoleum", "london eye": "giant observation wheel",
+  "golden gate bridge": "red suspension bridge", "hollywood walk of fame": "star-studded sidewalk"
+};
+
+interface LintRule {
+  category: PromptLintCategory;
+  severity: PromptLintIssue['severity'];
+  rewrites: Record<string, string>;
+  message: (match: string) => string;
+}
+
+const TERM_RULES: LintRule[] = [
+  {
+    category: 'brand',
+    severity: 'error',
+    rewrites: BRAND_REWRITES,
+    message: match => `"${match}" is a brand or trademark. Commercial stock must be brand-free.`
+  },
+  {
+    category: 'character',
+    severity: 'error',
+    rewrites: CHARACTER_REWRITES,
+    message: match => `"${match}" is a copyrighted character. It will be rejected as IP infringement.`
+  },
+  {
+    category: 'public_figure',
+    severity: 'error',
+    rewrites: PUBLIC_FIGURE_REWRITES,
+    message: match => `"${match}" is a real public figure. Recognizable people need a model release.`
+  },
+  {
+    category: 'landmark',
+    severity: 'warning',
+    rewrites: LANDMARK_REWRITES,
+    message: match => `"${match}" needs a property release (or is editorial-only) on most platforms.`
+  }
+];
+
+// Requests for legible text; AI lettering is usually garbled and rejected
+const TEXT_PATTERNS: { pattern: RegExp; suggestion: string; message: string }[] = [
+  {
+    // "says"/"reads" only count before a quote or after a text surface; "woman reading a book" is fine
+    pattern: /\b(?:that\s+)?(?:with\s+(?:the\s+)?(?:text|words?|caption|slogan|lettering|headline)\b(?:\s*["“'][^"”']*["”'])?|(?:says|saying|reads|reading)\s*["“'][^"”']*["”']|(?<=\b(?:sign|poster|banner|billboard|placard|label|plaque|board|card|shirt|mug|screen)s?\s+(?:that\s+)?)(?:says|saying|reads|reading)\b(?:\s*["“'][^"”']*["”'])?)/gi,
+    suggestion: "with blank copy space",
+    message: "Asks for text in the image. Generated lettering is often garbled; leave copy space and add text later."
+  },
+  {
+    pattern: /["“][^"”]{2,}["”]/g,
+    suggestion: "",
+    message: "Quoted words tend to be rendered as text in the image."
+  },
+  {
+    pattern: /(?<!\bno\s)(?<!\bwithout\s)\b(?:logos?|watermarks?|typography|signatures?)\b/gi,
+    suggestion: "abstract emblem",
+    message: "Logos, watermarks and signatures get stock submissions rejected."
+  }
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// One alternation per rule, longest terms first so "samsung galaxy" wins over "samsung".
+// Lookarounds instead of \b so terms ending in accented letters ("beyoncé") still match.
+const TERM_PATTERNS = TERM_RULES.map(rule => ({
+  rule,
+  pattern: new RegExp(
+    `(?<![\\w-])(?:${Object.keys(rule.rewrites).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![\\w-])`,
+    'gi'
+  )
+}));
+
+/**
+ * Flags prompt content that gets microstock submissions rejected before any paid generation runs.
+ * Overlapping hits keep the earliest, longest match.
+ */
+export const lintPrompt = (prompt: string): PromptLintIssue[] => {
+  const found: PromptLintIssue[] = [];
+
+  for (const { rule, pattern } of TERM_PATTERNS) {
+    for (const match of prompt.matchAll(pattern)) {
+      found.push({
+        category: rule.category,
+        severity: rule.severity,
+        match: match[0],
+        start: match.index!,
+        end: match.index! + match[0].length,
+        message: rule.message(match[0]),
+        suggestion: rule.rewrites[match[0].toLowerCase()]
+      });
+    }
+  }
+
+  for (const { pattern, suggestion, message } of TEXT_PATTERNS) {
+    for (const match of prompt.matchAll(pattern)) {
+      found.push({
+        category: 'text',
+        severity: 'warning',
+        match: match[0],
+        start: match.index!,
+        end: match.index! + match[0].length,
+        message,
+        suggestion
+      });
+    }
+  }
+
+  found.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+  const issues: PromptLintIssue[] = [];
+  for (const issue of found) {
+    const previous = issues[issues.length - 1];
+    if (!previous || issue.start >= previous.end) issues.push(issue);
+  }
+  return issues;
+};
+
+/**
+ * Replaces the given issues with their suggestions and tidies the whitespace left behind.
+ */
+export const applyLintSuggestions = (prompt: string, issues: PromptLintIssue[]): string => {
+  let result = prompt;
+  // Right to left so earlier offsets stay valid
+  for (const issue of [...issues].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, issue.start) + issue.suggestion + result.slice(issue.end);
+  }
+  return result.replace(/\s{2,}/g, ' ').replace(/\s+([,.;])/g, '$1').trim();
+};
+
+export const hasLintErrors = (issues: PromptLintIssue[]): boolean => issues.some(issue => issue.severity === 'error');
@@ -0,0 +1,35 @@
+import { AIProvider, ProviderId } from '../types';
+import { geminiProvider } from './geminiService';
+import { aiStudioProvider } from './genai.client';
+import { mockProvider } from './mockProvider';
+
+export const PROVIDERS: Record<ProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  aistudio: aiStudioProvider,
+  mock: mockProvider
+};
+
+const PROVIDER_STORAGE_KEY = 'genstudio.provider';
+
+export const getProvider = (id: ProviderId): AIProvider => PROVIDERS[id] || geminiProvider;
+
+/**
+ * Restores the last selected provider, falling back to the Gemini API.
+ */
+export const loadProviderId = (): ProviderId => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY) as ProviderId | null;
+    if (stored && stored in PROVIDERS) return stored;
+  } catch (e) {
+    console.warn("Could not read provider selection", e);
+  }
+  return 'gemini';
+};
+
+export const saveProviderId = (id: ProviderId): void => {
+  try {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+  } catch (e) {
+    console.warn("Could not persist provider selection", e);
+  }
+};
@@ -0,0 +1,153 @@
+import { GenerationParams, GenerationResult, QueueJob } from '../types';
+
+export interface GenerationQueueOptions {
+  concurrency: number;
+  /** Runs a single job and resolves with the generated image; `signal` aborts when the job is cancelled. */
+  runJob: (job: QueueJob, signal: AbortSignal) => Promise<GenerationResult>;
+  /** Stores the result of a finished job and returns the id of the new image. */
+  onJobComplete: (job: QueueJob, result: GenerationResult) => string;
+  /** Called with a fresh snapshot of all jobs whenever any job changes. */
+  onChange: (jobs: QueueJob[]) => void;
+}
+
+export interface GenerationQueue {
+  enqueue: (paramsList: GenerationParams[]) => QueueJob[];
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  pauseAll: () => void;
+  resumeAll: () => void;
+  clearFinished: () => void;
+  setConcurrency: (concurrency: number) => void;
+  getJobs: () => QueueJob[];
+}
+
+const FINISHED_STATUSES = ['done', 'failed', 'cancelled'];
+
+/**
+ * Creates a FIFO generation queue that runs at most `concurrency` jobs at once.
+ * Queued jobs can be paused, resumed or cancelled individually. Cancelling a running job
+ * aborts its request; anything it still returns afterwards is discarded.
+ */
+export const createGenerationQueue = (options: GenerationQueueOptions): GenerationQueue => {
+  let jobs: QueueJob[] = [];
+  let concurrency = Math.max(1, options.concurrency);
+  // Tracks the latest run of each job so results of cancelled or superseded runs are dropped
+  const activeRuns = new Map<string, AbortController>();
+
+  const emit = () => options.onChange([...jobs]);
+
+  const update = (id: string, patch: Partial<QueueJob>) => {
+    jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+  };
+
+  const find = (id: string) => jobs.find(job => job.id === id);
+
+  const isCurrentRun = (id: string, controller: AbortController) =>
+    activeRuns.get(id) === controller && find(id)?.status === 'running';
+
+  const run = async (job: QueueJob) => {
+    const controller = new AbortController();
+    activeRuns.set(job.id, controller);
+    update(job.id, { status: 'running', startedAt: Date.now(), error: undefined });
+    emit();
+
+    try {
+      const result = await options.runJob(job, controller.signal);
+      if (isCurrentRun(job.id, controller)) {
+        const imageId = options.onJobComplete(job, result);
+        update(job.id, { status: 'done', imageId, finishedAt: Date.now() });
+      }
+    } catch (err: any) {
+      if (isCurrentRun(job.id, controller)) {
+        update(job.id, { status: 'failed', error: err?.message || 'Generation failed', finishedAt: Date.now() });
+      }
+    }
+
+    emit();
+    schedule();
+  };
+
+  const schedule = () => {
+    let running = jobs.filter(job => job.status === 'running').length;
+    for (const job of jobs) {
+      if (running >= concurrency) break;
+      if (job.status === 'queued') {
+        running++;
+        run(job);
+      }
+    }
+  };
+
+  return {
+    enqueue: (paramsList) => {
+      const batchId = crypto.randomUUID();
+      const added: QueueJob[] = paramsList.map(params => ({
+        id: crypto.randomUUID(),
+        params: { ...params },
+        status: 'queued',
+        createdAt: Date.now(),
+        batchId
+      }));
+      jobs = [...jobs, ...added];
+      emit();
+      schedule();
+      return added;
+    },
+
+    pause: (id) => {
+      if (find(id)?.status !== 'queued') return;
+      update(id, { status: 'paused' });
+      emit();
+    },
+
+    resume: (id) => {
+      if (find(id)?.status !== 'paused') return;
+      update(id, { status: 'queued' });
+      emit();
+      schedule();
+    },
+
+    cancel: (id) => {
+      const job = find(id);
+      if (!job || FINISHED_STATUSES.includes(job.status)) return;
+      activeRuns.get(id)?.abort();
+      activeRuns.delete(id);
+      update(id, { status: 'cancelled', finishedAt: Date.now() });
+      emit();
+      schedule();
+    },
+
+    retry: (id) => {
+      const job = find(id);
+      if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+      update(id, { status: 'queued', error: undefined, finishedAt: undefined });
+      emit();
+      schedule();
+    },
+
+    pauseAll: () => {
+      jobs = jobs.map(job => job.status === 'queued' ? { ...job, status: 'paused' } : job);
+      emit();
+    },
+
+    resumeAll: () => {
+      jobs = jobs.map(job => job.status === 'paused' ? { ...job, status: 'queued' } : job);
+      emit();
+      schedule();
+    },
+
+    clearFinished: () => {
+      jobs = jobs.filter(job => !FINISHED_STATUSES.includes(job.status));
+      emit();
+    },
+
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      schedule();
+    },
+
+    getJobs: () => [...jobs]
+  };
+};
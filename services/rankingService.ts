@@ -0,0 +1,38 @@
+import { GeneratedImage } from '../types';
+import { validateMetadata } from './validatorService';
+
+export interface RankedCandidate {
+  image: GeneratedImage;
+  qualityScore: number | null;
+  metadataScore: number | null;
+  combinedScore: number | null; // null until at least one score is available
+  rank: number; // 1-based; unscored candidates sort last
+}
+
+// Visual defects cause more rejections than weak metadata, so quality carries more weight
+const QUALITY_WEIGHT = 0.6;
+const METADATA_WEIGHT = 0.4;
+
+/**
+ * Ranks candidates of one prompt by QualityAssessment score and validateMetadata score.
+ * When only one score is in, it is used on its own so partially analyzed grids still sort.
+ */
+export const rankCandidates = (images: GeneratedImage[]): RankedCandidate[] => {
+  const scored = images.map(image => {
+    const qualityScore = image.qualityAssessment ? image.qualityAssessment.score : null;
+    const metadataScore = image.metadata ? validateMetadata(image.metadata).score : null;
+
+    let combinedScore: number | null = null;
+    if (qualityScore !== null && metadataScore !== null) {
+      combinedScore = Math.round(qualityScore * QUALITY_WEIGHT + metadataScore * METADATA_WEIGHT);
+    } else if (qualityScore !== null || metadataScore !== null) {
+      combinedScore = qualityScore ?? metadataScore;
+    }
+
+    return { image, qualityScore, metadataScore, combinedScore };
+  });
+
+  return scored
+    .sort((a, b) => (b.combinedScore ?? -1) - (a.combinedScore ?? -1))
+    .map((candidate, index) => ({ ...candidate, rank: index + 1 }));
+};
@@ -0,0 +1,143 @@
+/**
+ * Pure RGBA resampling used by the upscale worker. Everything works on plain typed arrays
+ * so it runs unchanged off the main thread.
+ */
+
+const LANCZOS_LOBES = 3;
+
+const sinc = (x: number): number => {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+};
+
+const lanczos = (x: number, a: number): number => (Math.abs(x) < a ? sinc(x) * sinc(x / a) : 0);
+
+interface Taps {
+  size: number; // taps per output pixel
+  indices: Int32Array; // source index per tap, clamped to the edge
+  weights: Float32Array; // normalized so each pixel's weights sum to 1
+}
+
+/**
+ * Precomputes the Lanczos taps of one axis. When shrinking, the kernel is widened
+ * by the reduction factor so it also acts as the low-pass filter.
+ */
+const computeTaps = (srcSize: number, dstSize: number, a: number): Taps => {
+  const scale = dstSize / srcSize;
+  const filterScale = Math.max(1, 1 / scale);
+  const support = a * filterScale;
+  const size = 2 * Math.ceil(support) + 1;
+  const indices = new Int32Array(dstSize * size);
+  const weights = new Float32Array(dstSize * size);
+
+  for (let i = 0; i < dstSize; i++) {
+    const center = (i + 0.5) / scale - 0.5;
+    const left = Math.ceil(center - support);
+    let sum = 0;
+    for (let t = 0; t < size; t++) {
+      const j = left + t;
+      const w = lanczos((j - center) / filterScale, a);
+      indices[i * size + t] = Math.min(srcSize - 1, Math.max(0, j));
+      weights[i * size + t] = w;
+      sum += w;
+    }
+    if (sum !== 0) {
+      for (let t = 0; t < size; t++) weights[i * size + t] /= sum;
+    }
+  }
+  return { size, indices, weights };
+};
+
+/**
+ * Separable Lanczos-3 resize of an RGBA buffer: a horizontal pass into floats,
+ * then a vertical pass that rounds and clamps back to bytes.
+ */
+export const lanczosResize = (
+  src: Uint8ClampedArray,
+  srcWidth: number,
+  srcHeight: number,
+  dstWidth: number,
+  dstHeight: number
+): Uint8ClampedArray => {
+  const xTaps = computeTaps(srcWidth, dstWidth, LANCZOS_LOBES);
+  const yTaps = computeTaps(srcHeight, dstHeight, LANCZOS_LOBES);
+
+  const horizontal = new Float32Array(dstWidth * srcHeight * 4);
+  for (let y = 0; y < srcHeight; y++) {
+    const rowOffset = y * srcWidth;
+    for (let x = 0; x < dstWidth; x++) {
+      let r = 0, g = 0, b = 0, alpha = 0;
+      for (let t = 0; t < xTaps.size; t++) {
+        const w = xTaps.weights[x * xTaps.size + t];
+        if (w === 0) continue;
+        const s = (rowOffset + xTaps.indices[x * xTaps.size + t]) * 4;
+        r += src[s] * w;
+        g += src[s + 1] * w;
+        b += src[s + 2] * w;
+        alpha += src[s + 3] * w;
+      }
+      const d = (y * dstWidth + x) * 4;
+      horizontal[d] = r;
+      horizontal[d + 1] = g;
+      horizontal[d + 2] = b;
+      horizontal[d + 3] = alpha;
+    }
+  }
+
+  const out = new Uint8ClampedArray(dstWidth * dstHeight * 4);
+  for (let y = 0; y < dstHeight; y++) {
+    for (let x = 0; x < dstWidth; x++) {
+      let r = 0, g = 0, b = 0, alpha = 0;
+      for (let t = 0; t < yTaps.size; t++) {
+        const w = yTaps.weights[y * yTaps.size + t];
+        if (w === 0) continue;
+        const s = (yTaps.indices[y * yTaps.size + t] * dstWidth + x) * 4;
+        r += horizontal[s] * w;
+        g += horizontal[s + 1] * w;
+        b += horizontal[s + 2] * w;
+        alpha += horizontal[s + 3] * w;
+      }
+      const d = (y * dstWidth + x) * 4;
+      out[d] = r;
+      out[d + 1] = g;
+      out[d + 2] = b;
+      out[d + 3] = alpha;
+    }
+  }
+  return out;
+};
+
+/**
+ * Unsharp mask with a 3x3 binomial blur: out = src + amount * (src - blur). Alpha is left as-is.
+ */
+export const unsharpMask = (src: Uint8ClampedArray, width: number, height: number, amount: number): Uint8ClampedArray => {
+  if (amount <= 0) return src;
+
+  const blurX = new Float32Array(src.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const left = (y * width + Math.max(0, x - 1)) * 4;
+      const mid = (y * width + x) * 4;
+      const right = (y * width + Math.min(width - 1, x + 1)) * 4;
+      for (let c = 0; c < 3; c++) {
+        blurX[mid + c] = (src[left + c] + 2 * src[mid + c] + src[right + c]) / 4;
+      }
+    }
+  }
+
+  const out = new Uint8ClampedArray(src.length);
+  for (let y = 0; y < height; y++) {
+    const up = Math.max(0, y - 1) * width;
+    const down = Math.min(height - 1, y + 1) * width;
+    for (let x = 0; x < width; x++) {
+      const mid = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const blur = (blurX[(up + x) * 4 + c] + 2 * blurX[mid + c] + blurX[(down + x) * 4 + c]) / 4;
+        out[mid + c] = src[mid + c] + amount * (src[mid + c] - blur);
+      }
+      out[mid + 3] = src[mid + 3];
+    }
+  }
+  return out;
+};
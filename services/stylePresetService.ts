@@ -0,0 +1,148 @@
+import { AspectRatio, CustomStylePreset, GenerationParams, StylePreset } from '../types';
+
+const STYLES_STORAGE_KEY = 'genstudio.styles';
+const EXPORT_FORMAT = 'genstudio.styles';
+
+export interface StylePresetImportResult {
+  presets: CustomStylePreset[];
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export const loadStylePresets = (): CustomStylePreset[] => {
+  try {
+    const stored = localStorage.getItem(STYLES_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as CustomStylePreset[];
+  } catch (e) {
+    console.warn("Could not read style presets", e);
+  }
+  return [];
+};
+
+export const saveStylePresets = (presets: CustomStylePreset[]): void => {
+  try {
+    localStorage.setItem(STYLES_STORAGE_KEY, JSON.stringify(presets));
+  } catch (e) {
+    console.warn("Could not persist style presets", e);
+  }
+};
+
+export const createStylePreset = (changes: Partial<CustomStylePreset> = {}): CustomStylePreset => ({
+  name: 'Untitled style',
+  promptFragment: '',
+  ...changes,
+  id: crypto.randomUUID(),
+  version: 1,
+  updatedAt: Date.now()
+});
+
+/**
+ * Applies an edit and bumps the version when anything that affects generation changed.
+ */
+export const updateStylePreset = (preset: CustomStylePreset, changes: Partial<CustomStylePreset>): CustomStylePreset => {
+  const next = { ...preset, ...changes, id: preset.id };
+  const changed = next.name !== preset.name
+    || next.promptFragment !== preset.promptFragment
+    || next.aspectRatio !== preset.aspectRatio
+    || (next.negativePrompt || '') !== (preset.negativePrompt || '');
+  return changed ? { ...next, version: preset.version + 1, updatedAt: Date.now() } : preset;
+};
+
+export const duplicateStylePreset = (preset: CustomStylePreset): CustomStylePreset =>
+  createStylePreset({
+    name: `${preset.name} copy`,
+    promptFragment: preset.promptFragment,
+    aspectRatio: preset.aspectRatio,
+    negativePrompt: preset.negativePrompt
+  });
+
+export const exportStylePresets = (presets: CustomStylePreset[]): string =>
+  JSON.stringify({ format: EXPORT_FORMAT, exportedAt: new Date().toISOString(), presets }, null, 2);
+
+const ASPECT_RATIO_VALUES = Object.values(AspectRatio) as string[];
+
+const toPreset = (raw: any): CustomStylePreset | null => {
+  if (!raw || typeof raw.name !== 'string' || typeof raw.promptFragment !== 'string' || !raw.promptFragment.trim()) {
+    return null;
+  }
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    name: raw.name.trim() || 'Imported style',
+    promptFragment: raw.promptFragment.trim(),
+    aspectRatio: ASPECT_RATIO_VALUES.includes(raw.aspectRatio) ? raw.aspectRatio : undefined,
+    negativePrompt: typeof raw.negativePrompt === 'string' && raw.negativePrompt.trim() ? raw.negativePrompt.trim() : undefined,
+    version: Number.isInteger(raw.version) && raw.version > 0 ? raw.version : 1,
+    updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : Date.now()
+  };
+};
+
+/**
+ * Merges an export file (or a bare array of presets) into the existing list.
+ * A preset with a known id only replaces the local one when its version is newer;
+ * entries without a name or prompt fragment are skipped.
+ */
+export const importStylePresets = (json: string, existing: CustomStylePreset[]): StylePresetImportResult => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const rawPresets: unknown[] | null = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.presets) ? parsed.presets : null;
+  if (!rawPresets) {
+    throw new Error("No style presets found in the file.");
+  }
+
+  const presets = [...existing];
+  let added = 0;
+  let updated = 0;
+  let skipped = 0;
+  for (const raw of rawPresets) {
+    const preset = toPreset(raw);
+    if (!preset) {
+      skipped++;
+      continue;
+    }
+    const index = presets.findIndex(p => p.id === preset.id);
+    if (index === -1) {
+      presets.push(preset);
+      added++;
+    } else if (preset.version > presets[index].version) {
+      presets[index] = preset;
+      updated++;
+    } else {
+      skipped++;
+    }
+  }
+  return { presets, added, updated, skipped };
+};
+
+/**
+ * Switches params to a custom preset (or back to a built-in style) and applies the preset's defaults.
+ */
+export const applyStylePreset = (params: GenerationParams, preset: CustomStylePreset | null, style: StylePreset = StylePreset.NONE): GenerationParams => {
+  if (!preset) return { ...params, style, customStyle: undefined };
+  return {
+    ...params,
+    style: StylePreset.NONE,
+    customStyle: preset,
+    aspectRatio: preset.aspectRatio ?? params.aspectRatio,
+    negativePrompt: preset.negativePrompt ?? params.negativePrompt
+  };
+};
+
+/**
+ * The text a style adds to the prompt, or null when no style is selected.
+ */
+export const getStyleFragment = (params: GenerationParams): string | null => {
+  if (params.customStyle) return params.customStyle.promptFragment.trim() || null;
+  if (params.style && params.style !== StylePreset.NONE) return `${params.style} style`;
+  return null;
+};
+
+/**
+ * Human-readable style name, including the custom preset version.
+ */
+export const getStyleLabel = (params: GenerationParams): string =>
+  params.customStyle ? `${params.customStyle.name} v${params.customStyle.version}` : params.style;
@@ -0,0 +1,162 @@
+import { GenerationParams, PromptTemplate, TemplateExpansionMode } from '../types';
+
+const TEMPLATES_STORAGE_KEY = 'genstudio.templates';
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][\w-]*)\}/g;
+
+/**
+ * Returns the placeholder names of a template in order of first appearance.
+ */
+export const extractPlaceholders = (template: string): string[] => {
+  const names: string[] = [];
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+/**
+ * Substitutes placeholders; ones without a value are left as-is so they stay visible in previews.
+ */
+export const fillTemplate = (template: string, values: Record<string, string>): string =>
+  template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+const cleanValues = (values: string[] = []): string[] => values.map(value => value.trim()).filter(Boolean);
+
+/**
+ * Counts the prompts an expansion would produce without building them.
+ */
+export const countExpansion = (template: string, variables: Record<string, string[]>, mode: TemplateExpansionMode): number => {
+  const lengths = extractPlaceholders(template).map(name => cleanValues(variables[name]).length);
+  if (lengths.length === 0) return template.trim() ? 1 : 0;
+  if (lengths.some(length => length === 0)) return 0;
+  return mode === 'cartesian' ? lengths.reduce((product, length) => product * length, 1) : Math.max(...lengths);
+};
+
+/**
+ * Expands a template into concrete prompts.
+ * `cartesian` combines every value of every placeholder; `zip` takes the n-th value of each list
+ * per prompt, repeating shorter lists, so a single lighting value applies across a whole series.
+ * At most `limit` prompts are produced.
+ */
+export const expandTemplate = (
+  template: string,
+  variables: Record<string, string[]>,
+  mode: TemplateExpansionMode,
+  limit: number = Infinity
+): string[] => {
+  const names = extractPlaceholders(template);
+  const lists = names.map(name => cleanValues(variables[name]));
+  const total = Math.min(countExpansion(template, variables, mode), limit);
+  const prompts: string[] = [];
+
+  for (let index = 0; index < total; index++) {
+    const values: Record<string, string> = {};
+    if (mode === 'cartesian') {
+      // Mixed-radix counter: the last placeholder changes fastest
+      let remainder = index;
+      for (let i = names.length - 1; i >= 0; i--) {
+        values[names[i]] = lists[i][remainder % lists[i].length];
+        remainder = Math.floor(remainder / lists[i].length);
+      }
+    } else {
+      names.forEach((name, i) => { values[name] = lists[i][index % lists[i].length]; });
+    }
+    prompts.push(fillTemplate(template, values));
+  }
+
+  return prompts;
+};
+
+/**
+ * Turns expanded prompts into generation params that share every other setting of `base`.
+ */
+export const buildTemplateParams = (base: GenerationParams, prompts: string[]): GenerationParams[] =>
+  prompts.map(prompt => ({ ...base, prompt }));
+
+export interface CsvColumns {
+  columns: Record<string, string[]>;
+  incompleteRows: number[]; // 1-based data rows (after the header, blank lines not counted) skipped for an empty cell
+}
+
+/**
+ * Parses CSV (RFC 4180 quoting, comma or semicolon separated) into one value list per header column.
+ * Only the columns in `names` are kept (all when omitted). A row with an empty cell in any kept
+ * column is skipped as a whole, so the n-th value of every column still comes from the same row.
+ */
+export const parseCsvColumns = (text: string, names?: string[]): CsvColumns => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(r => r.some(cell => cell.trim()));
+  if (!header) return { columns: {}, incompleteRows: [] };
+
+  const keys = header
+    .map((name, col) => ({ key: name.trim().replace(/^\{|\}$/g, ''), col }))
+    .filter(({ key }) => key && (!names || names.includes(key)));
+  const columns: Record<string, string[]> = Object.fromEntries(keys.map(({ key }) => [key, []]));
+  const incompleteRows: number[] = [];
+  body.forEach((r, i) => {
+    const cells = keys.map(({ col }) => (r[col] || '').trim());
+    if (cells.some(cell => !cell)) {
+      incompleteRows.push(i + 1);
+      return;
+    }
+    keys.forEach(({ key }, k) => columns[key].push(cells[k]));
+  });
+  return { columns, incompleteRows };
+};
+
+export const loadTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as PromptTemplate[];
+  } catch (e) {
+    console.warn("Could not read prompt templates", e);
+  }
+  return [];
+};
+
+export const saveTemplates = (templates: PromptTemplate[]): void => {
+  try {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+  } catch (e) {
+    console.warn("Could not persist prompt templates", e);
+  }
+};
@@ -0,0 +1,67 @@
+import { ImageMetadata, MetadataLanguage, MetadataTranslation, MetadataTranslations } from '../types';
+import { METADATA_LANGUAGES } from '../constants';
+
+const LANGUAGES_STORAGE_KEY = 'genstudio.languages';
+
+export const loadTargetLanguages = (): MetadataLanguage[] => {
+  try {
+    const stored = localStorage.getItem(LANGUAGES_STORAGE_KEY);
+    if (stored) return (JSON.parse(stored) as MetadataLanguage[]).filter(lang => lang in METADATA_LANGUAGES);
+  } catch (e) {
+    console.warn("Could not read target languages", e);
+  }
+  return [];
+};
+
+export const saveTargetLanguages = (languages: MetadataLanguage[]): void => {
+  try {
+    localStorage.setItem(LANGUAGES_STORAGE_KEY, JSON.stringify(languages));
+  } catch (e) {
+    console.warn("Could not persist target languages", e);
+  }
+};
+
+/**
+ * Normalizes a provider's translation payload (an array of `{ language, title, description, keywords }`
+ * or an object keyed by language) into MetadataTranslations, keeping only the requested languages.
+ */
+export const parseTranslations = (raw: any, languages: MetadataLanguage[]): MetadataTranslations => {
+  const entries: any[] = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === 'object'
+      ? Object.entries(raw).map(([language, value]) => ({ ...(value as object), language }))
+      : [];
+
+  const translations: MetadataTranslations = {};
+  for (const entry of entries) {
+    const language = String(entry?.language || '').toLowerCase().slice(0, 2) as MetadataLanguage;
+    if (!languages.includes(language)) continue;
+    const keywords: string[] = Array.isArray(entry.keywords)
+      ? entry.keywords
+      : typeof entry.keywords === 'string' ? entry.keywords.split(',') : [];
+    const seen = new Set<string>();
+    translations[language] = {
+      title: String(entry.title || '').trim(),
+      description: String(entry.description || '').trim(),
+      keywords: keywords
+        .map(k => String(k).trim())
+        .filter(k => k && !seen.has(k.toLowerCase()) && seen.add(k.toLowerCase()))
+    };
+  }
+  return translations;
+};
+
+/**
+ * Title, description and keywords in `language`, or the English originals when `language`
+ * is omitted or has not been translated.
+ */
+export const getLocalizedFields = (metadata: ImageMetadata, language?: MetadataLanguage): MetadataTranslation => {
+  const translation = language ? metadata.translations?.[language] : undefined;
+  return translation ?? { title: metadata.title, description: metadata.description, keywords: metadata.keywords };
+};
+
+/**
+ * Languages with a stored translation, in METADATA_LANGUAGES order.
+ */
+export const getTranslatedLanguages = (metadata: ImageMetadata): MetadataLanguage[] =>
+  (Object.keys(METADATA_LANGUAGES) as MetadataLanguage[]).filter(lang => metadata.translations?.[lang]);
@@ -0,0 +1,31 @@
+import { lanczosResize, unsharpMask } from './resample';
+
+export interface UpscaleWorkerRequest {
+  width: number;
+  height: number;
+  data: ArrayBuffer; // RGBA
+  targetWidth: number;
+  targetHeight: number;
+  sharpen: number;
+}
+
+export type UpscaleWorkerResponse =
+  | { ok: true; width: number; height: number; data: ArrayBuffer }
+  | { ok: false; message: string };
+
+// The DOM lib types `self` as a Window; only the worker half of postMessage is used here
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<UpscaleWorkerRequest>) => void) | null;
+  postMessage: (message: UpscaleWorkerResponse, transfer?: Transferable[]) => void;
+};
+
+scope.onmessage = (event) => {
+  const { width, height, data, targetWidth, targetHeight, sharpen } = event.data;
+  try {
+    const resized = lanczosResize(new Uint8ClampedArray(data), width, height, targetWidth, targetHeight);
+    const result = unsharpMask(resized, targetWidth, targetHeight, sharpen);
+    scope.postMessage({ ok: true, width: targetWidth, height: targetHeight, data: result.buffer as ArrayBuffer }, [result.buffer as ArrayBuffer]);
+  } catch (err) {
+    scope.postMessage({ ok: false, message: err instanceof Error ? err.message : String(err) });
+  }
+};
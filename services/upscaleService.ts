@@ -0,0 +1,92 @@
+import { CancelledError, throwIfAborted } from './errors';
+import { decodeImageData } from './imageInfoService';
+import type { UpscaleWorkerRequest, UpscaleWorkerResponse } from './upscale.worker';
+
+export interface UpscaleTarget {
+  width: number;
+  height: number;
+  scale: number; // 1 when the source already meets the target
+}
+
+export interface UpscaleResult {
+  url: string; // PNG data URL
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+}
+
+/**
+ * Smallest size with the source aspect ratio whose pixel count reaches `minMP` megapixels.
+ */
+export const computeUpscaleTarget = (width: number, height: number, minMP: number): UpscaleTarget => {
+  const target = minMP * 1_000_000;
+  if (width * height >= target) return { width, height, scale: 1 };
+  const scale = Math.sqrt(target / (width * height));
+  return { width: Math.ceil(width * scale), height: Math.ceil(height * scale), scale };
+};
+
+const runWorker = (request: UpscaleWorkerRequest, signal?: AbortSignal): Promise<{ width: number; height: number; data: ArrayBuffer }> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./upscale.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(new CancelledError());
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.onmessage = (event: MessageEvent<UpscaleWorkerResponse>) => {
+      finish();
+      const response = event.data;
+      if ('message' in response) reject(new Error(`Upscaling failed: ${response.message}`));
+      else resolve(response);
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(`Upscaling failed: ${event.message || 'worker error'}`));
+    };
+    worker.postMessage(request, [request.data]);
+  });
+
+/**
+ * Upscales an image on the CPU in a Web Worker (Lanczos-3, optional unsharp mask) until it
+ * reaches `targetMP`. Images that are already large enough are returned at their own size.
+ */
+export const upscaleImage = async (url: string, targetMP: number, sharpen: number, signal?: AbortSignal): Promise<UpscaleResult> => {
+  throwIfAborted(signal);
+  const source = await decodeImageData(url);
+  throwIfAborted(signal);
+
+  const target = computeUpscaleTarget(source.width, source.height, targetMP);
+  if (target.scale === 1) {
+    return { url, width: source.width, height: source.height, sourceWidth: source.width, sourceHeight: source.height };
+  }
+
+  const result = await runWorker({
+    width: source.width,
+    height: source.height,
+    data: source.data.buffer as ArrayBuffer,
+    targetWidth: target.width,
+    targetHeight: target.height,
+    sharpen
+  }, signal);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = result.width;
+  canvas.height = result.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(result.data), result.width, result.height), 0, 0);
+
+  return {
+    url: canvas.toDataURL('image/png'),
+    width: result.width,
+    height: result.height,
+    sourceWidth: source.width,
+    sourceHeight: source.height
+  };
+};
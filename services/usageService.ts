@@ -0,0 +1,241 @@
+import { AICallOptions, AIProvider, ImageQuality, ModelUsageReport, PriceTable, UsageEntry, UsageTask } from '../types';
+import { DEFAULT_PRICE_TABLE } from '../constants';
+import { CancelledError, classifyError } from './errors';
+
+const LEDGER_STORAGE_KEY = 'genstudio.usage';
+const PRICES_STORAGE_KEY = 'genstudio.prices';
+// Oldest entries are dropped beyond this so the ledger stays well inside the localStorage quota
+const MAX_LEDGER_ENTRIES = 5000;
+
+export type UsageGrouping = 'day' | 'image' | 'batch';
+
+export interface UsageSummary {
+  key: string;
+  label: string;
+  imageId?: string;
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number;
+  firstAt: number;
+  lastAt: number;
+}
+
+export const loadUsageLedger = (): UsageEntry[] => {
+  try {
+    const stored = localStorage.getItem(LEDGER_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as UsageEntry[];
+  } catch (e) {
+    console.warn("Could not read usage ledger", e);
+  }
+  return [];
+};
+
+export const saveUsageLedger = (entries: UsageEntry[]): void => {
+  try {
+    localStorage.setItem(LEDGER_STORAGE_KEY, JSON.stringify(entries.slice(-MAX_LEDGER_ENTRIES)));
+  } catch (e) {
+    console.warn("Could not persist usage ledger", e);
+  }
+};
+
+/**
+ * Returns the stored price table merged over the defaults, so newly added models always have a price.
+ */
+export const loadPriceTable = (): PriceTable => {
+  try {
+    const stored = localStorage.getItem(PRICES_STORAGE_KEY);
+    if (stored) return { ...DEFAULT_PRICE_TABLE, ...JSON.parse(stored) };
+  } catch (e) {
+    console.warn("Could not read price table", e);
+  }
+  return { ...DEFAULT_PRICE_TABLE };
+};
+
+export const savePriceTable = (prices: PriceTable): void => {
+  try {
+    localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+  } catch (e) {
+    console.warn("Could not persist price table", e);
+  }
+};
+
+/**
+ * Forwards the token counts of a Gemini `usageMetadata` block to the caller's `onUsage` hook.
+ * Thinking tokens are billed as output, so they are counted with the candidate tokens.
+ */
+export const reportUsage = (options: AICallOptions | undefined, model: string, usageMetadata?: any): void => {
+  if (!options?.onUsage) return;
+  const candidates: number | undefined = usageMetadata?.candidatesTokenCount;
+  const thoughts: number | undefined = usageMetadata?.thoughtsTokenCount;
+  options.onUsage({
+    model,
+    promptTokens: usageMetadata?.promptTokenCount,
+    outputTokens: candidates === undefined && thoughts === undefined ? undefined : (candidates ?? 0) + (thoughts ?? 0),
+    totalTokens: usageMetadata?.totalTokenCount
+  });
+};
+
+/**
+ * Prices a call from its token counts, falling back to the flat per-image price for
+ * successful image calls when the provider reported no tokens. Unknown models cost 0.
+ */
+export const estimateCost = (
+  entry: Pick<UsageEntry, 'model' | 'task' | 'imageSize' | 'promptTokens' | 'outputTokens' | 'status'>,
+  prices: PriceTable
+): number => {
+  const price = prices[entry.model];
+  if (!price) return 0;
+
+  if (entry.promptTokens !== undefined || entry.outputTokens !== undefined) {
+    return ((entry.promptTokens ?? 0) * price.inputPerMillion + (entry.outputTokens ?? 0) * price.outputPerMillion) / 1_000_000;
+  }
+
+  const producesImage = entry.task === 'generateImage' || entry.task === 'editImage';
+  if (producesImage && entry.status === 'ok' && entry.imageSize) {
+    return price.perImage?.[entry.imageSize] ?? 0;
+  }
+  return 0;
+};
+
+/**
+ * Re-prices every entry with `prices`, so totals follow edits to the price table.
+ */
+export const repriceLedger = (entries: UsageEntry[], prices: PriceTable): UsageEntry[] =>
+  entries.map(entry => ({ ...entry, estimatedCost: estimateCost(entry, prices) }));
+
+const sumReported = (reports: ModelUsageReport[], field: 'promptTokens' | 'outputTokens' | 'totalTokens'): number | undefined => {
+  const values = reports.map(report => report[field]).filter((value): value is number => typeof value === 'number');
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : undefined;
+};
+
+/**
+ * Wraps a provider so every generate/edit/metadata/assessment/enhance call lands in the ledger through
+ * `record`, including failed and cancelled ones. Token counts are summed over all responses of
+ * the call (retries included); latency covers the whole call.
+ */
+export const withUsageTracking = (provider: AIProvider, record: (entry: UsageEntry) => void): AIProvider => {
+  const track = async <T>(
+    task: UsageTask,
+    options: AICallOptions = {},
+    imageSize: ImageQuality | undefined,
+    call: (options: AICallOptions) => Promise<T>
+  ): Promise<T> => {
+    const reports: ModelUsageReport[] = [];
+    const startedAt = Date.now();
+    let status: UsageEntry['status'] = 'ok';
+
+    try {
+      return await call({
+        ...options,
+        onUsage: (report) => {
+          reports.push(report);
+          options.onUsage?.(report);
+        }
+      });
+    } catch (err) {
+      status = classifyError(err) instanceof CancelledError ? 'cancelled' : 'failed';
+      throw err;
+    } finally {
+      const fallbackModel = task === 'generateImage' || task === 'editImage' ? provider.imageModel : 'unknown';
+      const entry: UsageEntry = {
+        id: crypto.randomUUID(),
+        timestamp: startedAt,
+        providerId: provider.id,
+        model: reports[reports.length - 1]?.model ?? fallbackModel,
+        task,
+        imageSize,
+        promptTokens: sumReported(reports, 'promptTokens'),
+        outputTokens: sumReported(reports, 'outputTokens'),
+        totalTokens: sumReported(reports, 'totalTokens'),
+        latencyMs: Date.now() - startedAt,
+        estimatedCost: 0,
+        status,
+        ...options.usage
+      };
+      entry.estimatedCost = estimateCost(entry, loadPriceTable());
+      record(entry);
+    }
+  };
+
+  return {
+    ...provider,
+    generateImage: (params, options) =>
+      track('generateImage', options, params.quality, opts => provider.generateImage(params, opts)),
+    editImage: (request, options) =>
+      track('editImage', options, request.params.quality, opts => provider.editImage(request, opts)),
+    generateMetadata: (params, imageBase64, options) =>
+      track('generateMetadata', options, params.quality, opts => provider.generateMetadata(params, imageBase64, opts)),
+    assessImageQuality: (imageBase64, options) =>
+      track('assessImageQuality', options, undefined, opts => provider.assessImageQuality(imageBase64, opts)),
+    enhancePrompt: (prompt, strategy, options) =>
+      track('enhancePrompt', options, undefined, opts => provider.enhancePrompt(prompt, strategy, opts)),
+    translateMetadata: (metadata, languages, options) =>
+      track('translateMetadata', options, undefined, opts => provider.translateMetadata(metadata, languages, opts))
+  };
+};
+
+const dayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Totals the ledger per day, per image or per batch, newest first.
+ * Follow-up calls on an image (metadata, assessment) count toward the batch that produced it.
+ */
+export const summarizeUsage = (entries: UsageEntry[], grouping: UsageGrouping): UsageSummary[] => {
+  const batchOfImage = new Map<string, { batchId: string; batchLabel?: string }>();
+  for (const entry of entries) {
+    if (entry.imageId && entry.batchId) {
+      batchOfImage.set(entry.imageId, { batchId: entry.batchId, batchLabel: entry.batchLabel });
+    }
+  }
+
+  const groups = new Map<string, UsageSummary>();
+  for (const entry of entries) {
+    let key: string;
+    let label: string;
+    if (grouping === 'day') {
+      key = dayKey(entry.timestamp);
+      label = key;
+    } else if (grouping === 'image') {
+      key = entry.imageId ?? '';
+      label = entry.imageId ? entry.imageId.slice(0, 8) : 'Not linked to an image';
+    } else {
+      const batch = entry.batchId
+        ? { batchId: entry.batchId, batchLabel: entry.batchLabel }
+        : entry.imageId ? batchOfImage.get(entry.imageId) : undefined;
+      key = batch?.batchId ?? '';
+      label = batch ? `${batch.batchLabel ?? 'Batch'} · ${batch.batchId.slice(0, 8)}` : 'Single generations';
+    }
+
+    const summary = groups.get(key) ?? {
+      key,
+      label,
+      imageId: grouping === 'image' ? entry.imageId : undefined,
+      calls: 0,
+      failedCalls: 0,
+      promptTokens: 0,
+      outputTokens: 0,
+      latencyMs: 0,
+      cost: 0,
+      firstAt: entry.timestamp,
+      lastAt: entry.timestamp
+    };
+    summary.calls++;
+    if (entry.status !== 'ok') summary.failedCalls++;
+    summary.promptTokens += entry.promptTokens ?? 0;
+    summary.outputTokens += entry.outputTokens ?? 0;
+    summary.latencyMs += entry.latencyMs;
+    summary.cost += entry.estimatedCost;
+    summary.firstAt = Math.min(summary.firstAt, entry.timestamp);
+    summary.lastAt = Math.max(summary.lastAt, entry.timestamp);
+    groups.set(key, summary);
+  }
+
+  return [...groups.values()].sort((a, b) => b.lastAt - a.lastAt);
+};
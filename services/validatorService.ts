@@ -1,77 +1,101 @@
 
-import { ImageMetadata, ValidationResult, ValidationIssue } from '../types';
-
-// A comprehensive list of banned words for microstock (Brands, trademarks, copyrighted characters)
-const BANNED_KEYWORDS = [
-  // Tech
-  "iphone", "ipad", "apple", "macbook", "ios", "airpods",
-  "android", "google", "pixel", "samsung", "galaxy", "windows", "microsoft",
-  "facebook", "instagram", "twitter", "tiktok", "whatsapp", "youtube", "linkedin",
-  "adobe", "photoshop", "illustrator", "zoom", "skype",
-  // Auto
-  "bmw", "mercedes", "audi", "tesla", "ferrari", "porsche", "lamborghini", "toyota", "honda", "ford", "jeep",
-  // Fashion/Retail
-  "nike", "adidas", "puma", "reebok", "gucci", "prada", "louis vuitton", "chanel", "zara", "h&m",
-  // Entertainment/Toys
-  "disney", "marvel", "dc comics", "star wars", "lego", "barbie", "hot wheels", "nerf", "mickey mouse",
-  // Food/Drink
-  "coca-cola", "pepsi", "coke", "mcdonalds", "starbucks", "kfc", "burger king",
-  // Camera Gear
-  "canon", "nikon", "sony", "fujifilm", "leica", "gopro"
-];
+import { ImageMetadata, ValidationResult, ValidationIssue, StockPlatform, ValidationProfile, BrandSettings } from '../types';
+import { GENERIC_VALIDATION_PROFILE, PLATFORM_CATEGORIES, STOCK_PLATFORMS } from '../constants';
+import { findCategory, getCategoryLabel, getPlatformCategories, isCategoryNative } from './categoryService';
+import { BUILTIN_LIST_NAME, findBrandHits, loadBrandSettings } from './brandService';
+import { findNearDuplicates } from './keywordDedupeService';
 
 /**
- * Validates image metadata against standard microstock requirements (Shutterstock, Adobe Stock, iStock).
+ * Validates image metadata against a platform's rules (title length, keyword range, required fields
+ * and scoring weights), or against the generic profile shared by all supported platforms when
+ * `platform` is omitted. Categories are checked against `platform`'s taxonomy, or every platform
+ * that has one. Brand checks use `brands` (the saved allowlist and custom lists by default).
  */
-export const validateMetadata = (metadata: ImageMetadata): ValidationResult => {
+export const validateMetadata = (
+  metadata: ImageMetadata,
+  platform?: StockPlatform,
+  brands: BrandSettings = loadBrandSettings()
+): ValidationResult => {
+  const profile: ValidationProfile = platform ? STOCK_PLATFORMS[platform] : GENERIC_VALIDATION_PROFILE;
+  const { weights } = profile;
   const issues: ValidationIssue[] = [];
   const recommendations: string[] = [];
   let score = 100;
 
+  // --- 0. Required Fields ---
+  for (const field of profile.requiredFields) {
+    const value = metadata[field];
+    if (Array.isArray(value) ? value.length === 0 : !value.trim()) {
+      issues.push({ type: 'error', message: `${field[0].toUpperCase()}${field.slice(1)} is required on ${profile.label}.`, field });
+      score -= weights.missingField;
+    }
+  }
+
   // --- 1. Title Validation ---
-  const titleLen = metadata.title.length;
-  if (titleLen > 70) {
-    issues.push({ type: 'error', message: `Title is too long (${titleLen}/70 chars). It will be truncated on Adobe Stock.`, field: 'title' });
-    score -= 15;
-  } else if (titleLen < 20) {
-    issues.push({ type: 'warning', message: 'Title is too short. Use descriptive phrases for better SEO.', field: 'title' });
-    score -= 5;
+  // Shutterstock shows the description as the title, so its length rules apply there
+  const title = metadata[profile.titleField];
+  const titleLabel = profile.titleField === 'title' ? 'Title' : 'Description';
+  const [minTitle, maxTitle] = profile.titleLen;
+  const titleLen = title.length;
+  if (titleLen > maxTitle) {
+    issues.push({ type: 'error', message: `${titleLabel} is too long (${titleLen}/${maxTitle} chars). It will be truncated on ${profile.label}.`, field: profile.titleField });
+    score -= weights.titleLength;
+  } else if (titleLen > 0 && titleLen < minTitle) {
+    issues.push({ type: 'warning', message: `${titleLabel} is too short (${titleLen}/${minTitle} chars). Use descriptive phrases for better SEO.`, field: profile.titleField });
+    score -= weights.titleLength / 3;
   }
 
-  const titleWords = metadata.title.split(/\s+/).length;
-  if (titleWords < 5) {
-    issues.push({ type: 'warning', message: 'Title word count is low (< 5 words).', field: 'title' });
-    score -= 5;
+  const titleWords = title.split(/\s+/).filter(Boolean).length;
+  if (titleLen > 0 && titleWords < profile.titleMinWords) {
+    issues.push({ type: 'warning', message: `${titleLabel} word count is low (< ${profile.titleMinWords} words).`, field: profile.titleField });
+    score -= weights.titleWords;
   }
 
   // --- 2. Description Validation ---
-  const descWords = metadata.description.split(/\s+/).length;
-  if (descWords < 10) {
+  const descWords = metadata.description.split(/\s+/).filter(Boolean).length;
+  if (profile.descriptionMinWords > 0 && descWords > 0 && descWords < profile.descriptionMinWords) {
     issues.push({ type: 'warning', message: 'Description is very sparse. Aim for 2-3 complete sentences.', field: 'description' });
-    score -= 10;
+    score -= weights.description;
+  }
+  if (profile.descriptionMaxLen && metadata.description.length > profile.descriptionMaxLen) {
+    issues.push({ type: 'warning', message: `Description is ${metadata.description.length} chars; ${profile.label} keeps the first ${profile.descriptionMaxLen}.`, field: 'description' });
+    score -= weights.description / 2;
   }
 
   // --- 3. Keyword Validation ---
+  const [minKeywords, maxKeywords] = profile.keywords;
   const keywordCount = metadata.keywords.length;
-  if (keywordCount < 30) {
-    const missing = 30 - keywordCount;
-    issues.push({ type: 'error', message: `Found only ${keywordCount} keywords. Minimum 30 required for optimal visibility.`, field: 'keywords' });
-    score -= (missing * 1.5); // Heavy penalty for low keywords
-    recommendations.push(`Add ${missing} more keywords to reach the minimum of 30.`);
-  } else if (keywordCount > 50) {
-    const extra = keywordCount - 50;
-    issues.push({ type: 'error', message: `Found ${keywordCount} keywords. Max 50 allowed on most platforms.`, field: 'keywords' });
-    score -= (extra * 2);
+  if (keywordCount > 0 && keywordCount < minKeywords) {
+    const missing = minKeywords - keywordCount;
+    issues.push({ type: 'error', message: `Found only ${keywordCount} keywords. Minimum ${minKeywords} required on ${profile.label}.`, field: 'keywords' });
+    score -= (missing * weights.missingKeyword);
+    recommendations.push(`Add ${missing} more keywords to reach the minimum of ${minKeywords}.`);
+  } else if (keywordCount > 0 && keywordCount < profile.recommendedKeywords) {
+    const missing = profile.recommendedKeywords - keywordCount;
+    issues.push({ type: 'warning', message: `Found ${keywordCount} keywords. Aim for ${profile.recommendedKeywords} or more for optimal visibility on ${profile.label}.`, field: 'keywords' });
+    score -= (missing * weights.missingKeyword / 2);
+    recommendations.push(`Add ${missing} more keywords to reach ${profile.recommendedKeywords}.`);
+  } else if (keywordCount > maxKeywords) {
+    const extra = keywordCount - maxKeywords;
+    issues.push({ type: 'error', message: `Found ${keywordCount} keywords. Max ${maxKeywords} allowed on ${profile.label}.`, field: 'keywords' });
+    score -= (extra * weights.extraKeyword);
     recommendations.push(`Remove ${extra} least relevant keywords.`);
   }
 
-  // Check for duplicates (case-insensitive)
-  const uniqueKeywords = new Set(metadata.keywords.map(k => k.toLowerCase().trim()));
-  if (uniqueKeywords.size !== metadata.keywords.length) {
-    const diff = metadata.keywords.length - uniqueKeywords.size;
-    issues.push({ type: 'warning', message: `Found ${diff} duplicate keywords.`, field: 'keywords' });
-    score -= (diff * 3);
-    recommendations.push("Remove duplicate keywords to save space for unique terms.");
+  // Check for duplicates, including plurals, spelling variants and split compounds ("businessmen", "business man")
+  const keywordGroups = findNearDuplicates(metadata.keywords);
+  for (const group of keywordGroups) {
+    issues.push({
+      type: 'warning',
+      message: `Near-duplicate keywords: ${group.keywords.map(k => `"${k}"`).join(', ')}. Keep "${group.keep}".`,
+      field: 'keywords',
+      keywords: group.drop
+    });
+  }
+  const diff = keywordGroups.reduce((sum, group) => sum + group.drop.length, 0);
+  if (diff > 0) {
+    score -= (diff * weights.duplicateKeyword);
+    recommendations.push(`Remove ${diff} duplicate or near-duplicate keywords to save space for unique terms.`);
   }
 
   // Check for single-word keywords that are too generic (basic heuristic)
@@ -82,42 +106,68 @@ export const validateMetadata = (metadata: ImageMetadata): ValidationResult => {
   }
 
   // --- 4. Risk / Content Compliance ---
-  const lowerTitle = metadata.title.toLowerCase();
-  const lowerDesc = metadata.description.toLowerCase();
-  const lowerKeywords = metadata.keywords.map(k => k.toLowerCase());
-
-  const foundBanned = BANNED_KEYWORDS.filter(banned => 
-    lowerKeywords.some(k => k.includes(banned)) || 
-    lowerTitle.includes(banned) ||
-    lowerDesc.includes(banned)
-  );
-
-  if (foundBanned.length > 0) {
-    issues.push({ 
-      type: 'error', 
-      message: `Potential Trademark/Brand Violation: ${foundBanned.join(', ')}. Commercial stock must be free of brands.`, 
-      field: 'keywords' 
+  // One issue per hit so the exact text can be found; the score is docked once per distinct term
+  const brandHits = findBrandHits(metadata, brands);
+  for (const hit of brandHits) {
+    const where = hit.keyword !== undefined ? `keyword "${hit.keyword}"` : hit.field;
+    const source = hit.list === BUILTIN_LIST_NAME ? '' : ` (${hit.list})`;
+    issues.push({
+      type: 'error',
+      message: `Potential Trademark/Brand Violation: "${hit.matched}" in ${where} matches "${hit.term}"${source}.`,
+      field: hit.field,
+      matched: hit.matched,
+      keywords: hit.keyword !== undefined ? [hit.keyword] : undefined
     });
-    score -= (25 * foundBanned.length); // Major penalty
-    recommendations.push(`Remove all instances of: ${foundBanned.join(', ')}.`);
+  }
+
+  const brandTerms = Array.from(new Set(brandHits.map(hit => hit.term)));
+  if (brandTerms.length > 0) {
+    score -= (weights.brand * brandTerms.length);
+    recommendations.push(`Remove all instances of: ${brandTerms.join(', ')}. If a term is used generically, add the phrase to the allowlist.`);
   }
 
   // --- 5. Technical / Format Checks ---
   if (!metadata.isAI) {
     issues.push({ type: 'warning', message: 'isAI flag is false. Most platforms now require marking AI content explicitly.', field: 'isAI' });
-    score -= 10;
+    score -= weights.aiFlag;
   }
 
   if (!metadata.author.includes("{{author}}")) {
     issues.push({ type: 'info', message: "Author field does not contain dynamic placeholder.", field: 'author' });
   }
 
+  // --- 6. Platform Categories ---
+  const categoryPlatforms = platform ? [platform] : (Object.keys(PLATFORM_CATEGORIES) as StockPlatform[]);
+  for (const p of categoryPlatforms) {
+    const taxonomy = PLATFORM_CATEGORIES[p];
+    if (!taxonomy) continue;
+    const ids = getPlatformCategories(metadata, p);
+    const invalid = ids.filter(id => !findCategory(p, id));
+
+    if (invalid.length > 0) {
+      issues.push({ type: 'error', message: `Category ${invalid.map(id => `"${id}"`).join(', ')} does not exist on ${p}.`, field: 'category' });
+      score -= weights.category;
+      recommendations.push(`Pick a valid ${p} category in the Metadata panel.`);
+    } else if (ids.length === 0) {
+      issues.push({ type: 'warning', message: `No ${p} category could be mapped from "${metadata.category}".`, field: 'category' });
+      score -= weights.category / 2;
+      recommendations.push(`Choose a ${p} category in the Metadata panel.`);
+    } else if (!metadata.platformCategories?.[p] && !isCategoryNative(metadata, p)) {
+      issues.push({ type: 'info', message: `"${metadata.category}" is not a ${p} category; mapped to ${ids.map(id => getCategoryLabel(p, id)).join(', ')}.`, field: 'category' });
+    }
+    if (ids.length > taxonomy.maxCategories) {
+      issues.push({ type: 'error', message: `${p} accepts at most ${taxonomy.maxCategories} categor${taxonomy.maxCategories === 1 ? 'y' : 'ies'}.`, field: 'category' });
+      score -= weights.category / 2;
+    }
+  }
+
   // Clamp score
   score = Math.max(0, Math.min(100, Math.round(score)));
 
   return {
     score,
     issues,
-    recommendations
+    recommendations,
+    keywordGroups
   };
 };
@@ -24,12 +24,52 @@ export enum StylePreset {
   ISO_METRIC = "Isometric"
 }
 
+export enum ReferenceRole {
+  STYLE = "Style",
+  COMPOSITION = "Composition",
+  SUBJECT = "Subject"
+}
+
+export enum EnhanceStrategy {
+  COMMERCIAL_LIFESTYLE = "Commercial Lifestyle",
+  COPY_SPACE = "Copy Space Heavy",
+  ISOLATED_ON_WHITE = "Isolated on White",
+  CONCEPTUAL_BACKGROUND = "Conceptual Background"
+}
+
+export interface ReferenceImage {
+  id: string;
+  url: string; // data URL
+  mimeType: string;
+  role: ReferenceRole;
+  sourceImageId?: string; // set when picked from the gallery
+}
+
 export interface GenerationParams {
   prompt: string;
   aspectRatio: AspectRatio;
   quality: ImageQuality;
   style: StylePreset;
+  customStyle?: CustomStylePreset; // snapshot of the picked custom preset; takes the place of `style`
   optimizeForMicrostock: boolean;
+  negativePrompt?: string;
+  referenceImages?: ReferenceImage[];
+  constraints?: string[]; // corrective instructions added by the auto-fix loop
+  seed?: number; // fixed seed for reproducible output; random when unset
+}
+
+/**
+ * A user-defined house style. Every saved change bumps `version`, and generated images keep the
+ * snapshot they were made with, so the exact fragment stays traceable after later edits.
+ */
+export interface CustomStylePreset {
+  id: string;
+  name: string;
+  promptFragment: string; // appended to the prompt in place of ", <style> style"
+  aspectRatio?: AspectRatio; // default applied when the preset is picked
+  negativePrompt?: string; // default applied when the preset is picked
+  version: number;
+  updatedAt: number;
 }
 
 export interface KeywordAnalysis {
@@ -39,6 +79,19 @@ export interface KeywordAnalysis {
   trending: string[];
 }
 
+export type MetadataLanguage = 'de' | 'es' | 'fr' | 'it' | 'pt' | 'nl' | 'pl' | 'ja' | 'ko' | 'zh';
+
+/**
+ * Title, description and keywords in one target language; the top-level ImageMetadata fields stay English.
+ */
+export interface MetadataTranslation {
+  title: string;
+  description: string;
+  keywords: string[];
+}
+
+export type MetadataTranslations = Partial<Record<MetadataLanguage, MetadataTranslation>>;
+
 export interface ImageMetadata {
   title: string;
   description: string;
@@ -48,6 +101,8 @@ export interface ImageMetadata {
   isAI: boolean;
   author: string;
   keywordAnalysis?: KeywordAnalysis;
+  translations?: MetadataTranslations;
+  platformCategories?: Partial<Record<StockPlatform, string[]>>; // user overrides of the mapped category ids
 }
 
 export interface QualityAssessment {
@@ -65,6 +120,128 @@ export interface GeneratedImage {
   timestamp: number;
   metadata?: ImageMetadata;
   qualityAssessment?: QualityAssessment;
+  parentId?: string; // source image this one was derived from
+  edit?: ImageEdit;
+  autoFix?: AutoFixAttemptInfo;
+  candidateGroupId?: string; // shared by all variants generated from one prompt
+  provenance?: GenerationProvenance;
+  upscale?: UpscaleInfo; // set on derived assets produced by the local upscaler
+  file?: ImageFileInfo; // measured from the decoded image once it is stored
+}
+
+/**
+ * What the image file really is, as decoded in the browser, rather than what the quality tier implies.
+ */
+export interface ImageFileInfo {
+  width: number;
+  height: number;
+  bytes: number;
+  mimeType: string; // sniffed from the file signature, falling back to the declared type
+}
+
+/**
+ * How a derived asset was upscaled from its parent, with the real pixel sizes on both sides.
+ */
+export interface UpscaleInfo {
+  platform: StockPlatform; // platform whose minimum picked the target
+  targetMP: number;
+  method: 'lanczos3';
+  sharpen: number; // unsharp-mask amount, 0 = off
+  sourceWidth: number;
+  sourceHeight: number;
+  width: number;
+  height: number;
+}
+
+export type StockPlatform = 'Adobe Stock' | 'Shutterstock' | 'iStock/Getty';
+
+/**
+ * Score deductions used by validateMetadata. Per-item weights are multiplied by the count.
+ */
+export interface ValidationWeights {
+  titleLength: number; // over the limit; a third of this when under it
+  titleWords: number;
+  description: number;
+  missingKeyword: number; // per keyword below the minimum
+  extraKeyword: number; // per keyword above the maximum
+  duplicateKeyword: number;
+  brand: number; // per brand or trademark found
+  aiFlag: number;
+  missingField: number; // per required field left empty
+  category: number; // invalid category; half of this when none could be mapped
+}
+
+/**
+ * Rules validateMetadata checks against: a generic profile, or one per stock platform.
+ */
+export interface ValidationProfile {
+  label: string; // used in issue messages, e.g. "Adobe Stock"
+  titleField: 'title' | 'description'; // the field the platform shows as the title
+  titleLen: [number, number];
+  titleMinWords: number;
+  descriptionMinWords: number; // 0 when the platform has no separate description
+  descriptionMaxLen?: number;
+  keywords: [number, number]; // hard min/max accepted by the uploader
+  recommendedKeywords: number; // fewer than this (but above the minimum) is a warning
+  requiredFields: ('title' | 'description' | 'keywords')[];
+  weights: ValidationWeights;
+  passScore: number;
+}
+
+export interface PlatformRules extends ValidationProfile {
+  minMP: number;
+  formats: string[];
+  reviewTime: string;
+  prohibited: string[];
+  color: string;
+}
+
+export interface PlatformCategory {
+  id: string; // what the platform's upload form or CSV expects
+  label: string;
+  terms: string[]; // lowercase words and phrases that map metadata onto this category
+}
+
+export interface CategoryTaxonomy {
+  maxCategories: number;
+  categories: PlatformCategory[];
+}
+
+/**
+ * Everything needed to reproduce an image: the exact model, prompt text, seed and config sent.
+ */
+export interface GenerationProvenance {
+  providerId: ProviderId;
+  model: string;
+  effectivePrompt: string; // final text after style, enhancers, constraints and exclusions
+  seed?: number; // undefined when the provider does not support seeding
+  config: Record<string, unknown>;
+}
+
+export interface GenerationResult {
+  url: string;
+  provenance: GenerationProvenance;
+}
+
+export interface AutoFixAttemptInfo {
+  runId: string;
+  attempt: number; // 1-based
+  maxAttempts: number;
+}
+
+export interface AutoFixSettings {
+  enabled: boolean;
+  maxAttempts: number;
+}
+
+export interface ImageEdit {
+  instruction: string;
+  maskUrl: string; // PNG data URL, white marks the region to change
+}
+
+export interface ImageEditRequest extends ImageEdit {
+  imageUrl: string;
+  params: GenerationParams;
 }
 
 export interface PromptExample {
@@ -73,14 +250,153 @@ export interface PromptExample {
   icon: string;
 }
 
+/**
+ * A prompt with {placeholders}; each placeholder has a list of values to expand over.
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  template: string;
+  variables: Record<string, string[]>;
+  builtIn?: boolean;
+}
+
+export type TemplateExpansionMode = 'cartesian' | 'zip';
+
 export interface ValidationIssue {
   type: 'error' | 'warning' | 'info';
   message: string;
   field?: keyof ImageMetadata;
+  matched?: string; // exact text that triggered the issue, e.g. "Nike's"
+  keywords?: string[]; // keywords to remove to resolve the issue
+}
+
+/**
+ * A team-maintained list of banned terms, checked alongside the built-in brand list.
+ */
+export interface BrandList {
+  id: string;
+  name: string;
+  terms: string[];
+  enabled: boolean;
+}
+
+export interface BrandSettings {
+  allowlist: string[]; // phrases that are never flagged, e.g. "apple pie"; a bare term disables it entirely
+  lists: BrandList[];
+}
+
+export interface BrandHit {
+  term: string; // banned term as listed
+  matched: string; // text as it appears in the metadata
+  field: 'title' | 'description' | 'keywords';
+  keyword?: string; // the whole keyword when field is 'keywords'
+  list: string; // name of the list the term came from
+}
+
+export interface KeywordGroup {
+  stem: string; // normalized form shared by every keyword in the group
+  keywords: string[]; // in list order
+  keep: string; // the first (highest ranked) keyword
+  drop: string[];
 }
 
 export interface ValidationResult {
   score: number;
   issues: ValidationIssue[];
   recommendations: string[];
+  keywordGroups: KeywordGroup[]; // near-duplicate keywords
+}
+
+export type PromptLintCategory = 'brand' | 'character' | 'public_figure' | 'landmark' | 'text';
+
+export interface PromptLintIssue {
+  category: PromptLintCategory;
+  severity: 'error' | 'warning';
+  match: string; // text as written in the prompt
+  start: number;
+  end: number;
+  message: string;
+  suggestion: string; // neutral replacement for the matched text; empty means drop it
+}
+
+export type JobStatus = 'queued' | 'paused' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueJob {
+  id: string;
+  params: GenerationParams;
+  status: JobStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  imageId?: string;
+  batchId?: string; // shared by every job added in the same enqueue call
+  error?: string;
+}
+
+export type ProviderId = 'gemini' | 'aistudio' | 'mock';
+
+export type UsageTask = 'generateImage' | 'editImage' | 'generateMetadata' | 'assessImageQuality' | 'enhancePrompt' | 'translateMetadata';
+
+export interface UsageContext {
+  imageId?: string; // image the call produced or analyzed
+  batchId?: string; // queue batch, candidate group or auto-fix run
+  batchLabel?: string;
+}
+
+/**
+ * Token counts reported by a provider for one model response.
+ */
+export interface ModelUsageReport {
+  model: string;
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+export interface AICallOptions {
+  signal?: AbortSignal; // aborts the in-flight request and any pending retries
+  usage?: UsageContext;
+  onUsage?: (report: ModelUsageReport) => void; // called by providers after every model response
+}
+
+export interface UsageEntry extends UsageContext {
+  id: string;
+  timestamp: number;
+  providerId: ProviderId;
+  model: string;
+  task: UsageTask;
+  imageSize?: ImageQuality;
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  latencyMs: number;
+  estimatedCost: number; // USD
+  status: 'ok' | 'failed' | 'cancelled';
+}
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per 1M input tokens
+  outputPerMillion: number; // USD per 1M output tokens
+  perImage?: Partial<Record<ImageQuality, number>>; // USD per image when no token counts are reported
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/**
+ * Common surface every image/LLM backend implements so the app can switch providers at runtime.
+ */
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  description: string;
+  imageModel: string;
+  checkApiKey: () => Promise<boolean>;
+  promptForApiKey: () => Promise<void>;
+  generateImage: (params: GenerationParams, options?: AICallOptions) => Promise<GenerationResult>;
+  editImage: (request: ImageEditRequest, options?: AICallOptions) => Promise<GenerationResult>;
+  generateMetadata: (params: GenerationParams, imageBase64?: string, options?: AICallOptions) => Promise<ImageMetadata>;
+  assessImageQuality: (imageBase64: string, options?: AICallOptions) => Promise<QualityAssessment>;
+  enhancePrompt: (prompt: string, strategy: EnhanceStrategy, options?: AICallOptions) => Promise<string>;
+  translateMetadata: (metadata: ImageMetadata, languages: MetadataLanguage[], options?: AICallOptions) => Promise<MetadataTranslations>;
 }